@@ -0,0 +1,119 @@
+'use client';
+
+import styles from './page.module.css';
+
+export interface ChartDatum {
+  label: string;
+  value: number;
+}
+
+interface ChartProps {
+  data: ChartDatum[];
+  formatValue: (value: number) => string;
+  color?: string;
+}
+
+// Drawing area inside the SVG viewBox; the SVG scales to its container's width
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 10, bottom: 28, left: 10 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// Axis labels are thinned out so they never overlap
+const MAX_AXIS_LABELS = 12;
+
+function axisLabelStep(count: number): number {
+  return Math.max(1, Math.ceil(count / MAX_AXIS_LABELS));
+}
+
+function ChartFrame({ data, formatValue, children }: ChartProps & { children: React.ReactNode }) {
+  const max = Math.max(0, ...data.map((d) => d.value));
+  const step = axisLabelStep(data.length);
+  const slot = PLOT_WIDTH / Math.max(1, data.length);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className={styles.chart} role="img">
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={PADDING.top + PLOT_HEIGHT}
+        y2={PADDING.top + PLOT_HEIGHT}
+        className={styles.chartAxis}
+      />
+      <text x={PADDING.left} y={PADDING.top - 4} className={styles.chartMax}>
+        max {formatValue(max)}
+      </text>
+      {children}
+      {data.map((d, i) => i % step === 0 && (
+        <text
+          key={`${d.label}-${i}`}
+          x={PADDING.left + slot * (i + 0.5)}
+          y={HEIGHT - 10}
+          textAnchor="middle"
+          className={styles.chartLabel}
+        >
+          {d.label}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+// Height in the plot for a value, with the largest value filling the plot
+function scale(value: number, max: number): number {
+  return max > 0 ? (value / max) * PLOT_HEIGHT : 0;
+}
+
+export function BarChart({ data, formatValue, color = '#00ff88' }: ChartProps) {
+  const max = Math.max(0, ...data.map((d) => d.value));
+  const slot = PLOT_WIDTH / Math.max(1, data.length);
+  const barWidth = Math.max(1, slot * 0.7);
+
+  return (
+    <ChartFrame data={data} formatValue={formatValue}>
+      {data.map((d, i) => {
+        const height = scale(d.value, max);
+        return (
+          <rect
+            key={`${d.label}-${i}`}
+            x={PADDING.left + slot * i + (slot - barWidth) / 2}
+            y={PADDING.top + PLOT_HEIGHT - height}
+            width={barWidth}
+            height={height}
+            fill={color}
+            opacity={0.8}
+          >
+            <title>{`${d.label}: ${formatValue(d.value)}`}</title>
+          </rect>
+        );
+      })}
+    </ChartFrame>
+  );
+}
+
+export function LineChart({ data, formatValue, color = '#00ccff' }: ChartProps) {
+  const max = Math.max(0, ...data.map((d) => d.value));
+  const slot = PLOT_WIDTH / Math.max(1, data.length);
+  const points = data.map((d, i) => ({
+    x: PADDING.left + slot * (i + 0.5),
+    y: PADDING.top + PLOT_HEIGHT - scale(d.value, max),
+    datum: d,
+  }));
+
+  return (
+    <ChartFrame data={data} formatValue={formatValue}>
+      <polyline
+        points={points.map((p) => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke={color}
+        strokeWidth={2}
+      />
+      {points.map((p, i) => (
+        <circle key={`${p.datum.label}-${i}`} cx={p.x} cy={p.y} r={3} fill={color}>
+          <title>{`${p.datum.label}: ${formatValue(p.datum.value)}`}</title>
+        </circle>
+      ))}
+    </ChartFrame>
+  );
+}
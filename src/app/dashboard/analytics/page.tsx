@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/lib/auth-context';
+import { Tracker, LocationData, getTrackerAsync, getFullHistoryAsync } from '@/lib/storage';
+import { getStorageErrorMessage } from '@/lib/storage-errors';
+import { getTrackerColor } from '@/lib/tracker-color';
+import { filterNoise } from '@/lib/noise-filter';
+import { useNoiseFilter } from '@/lib/noise-filter-context';
+import { useUnits } from '@/lib/units-context';
+import {
+  WEEKDAY_LABELS,
+  activeHoursPerWeekday,
+  daysBetween,
+  distancePerDay,
+  histogram,
+  percentile,
+  segmentSpeeds,
+  updateCadencePerDay,
+} from '@/lib/analytics';
+import { BarChart, LineChart } from './charts';
+import styles from './page.module.css';
+
+// Without a range the page covers the last 7 days
+const DEFAULT_ANALYTICS_SPAN_MS = 7 * 86400000;
+
+const HISTOGRAM_BINS = 12;
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Convert a date to the value format of a date input
+function toDateInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+// "2024-03-05" -> "3/5"
+function shortDay(day: string): string {
+  const [, month, date] = day.split('-');
+  return `${Number(month)}/${Number(date)}`;
+}
+
+function AnalyticsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+  const { formatDistance, formatSpeed } = useUnits();
+  const { noiseFilter } = useNoiseFilter();
+
+  // Fixed at first render so the default range does not move on every re-render
+  const [openedAt] = useState(() => Date.now());
+
+  const trackingId = searchParams.get('id');
+  const to = parseDate(searchParams.get('to')) ?? new Date(openedAt);
+  const from = parseDate(searchParams.get('from')) ?? new Date(to.getTime() - DEFAULT_ANALYTICS_SPAN_MS);
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  const [tracker, setTracker] = useState<Tracker | null>(null);
+  const [locations, setLocations] = useState<LocationData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeForm, setRangeForm] = useState({ from: toDateInput(from), to: toDateInput(to) });
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [authLoading, user, router]);
+
+  useEffect(() => {
+    if (!user || !trackingId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([
+      getTrackerAsync(trackingId, { limit: 1 }),
+      getFullHistoryAsync(trackingId, { from: fromIso, to: toIso }),
+    ])
+      .then(([loadedTracker, history]) => {
+        if (cancelled) return;
+        setTracker(loadedTracker);
+        setLocations(history);
+        if (!loadedTracker) setError('Tracker not found.');
+      })
+      .catch((loadError) => {
+        console.error('Error loading analytics:', loadError);
+        if (!cancelled) setError(getStorageErrorMessage(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, trackingId, fromIso, toIso]);
+
+  const handleApplyRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextFrom = parseDate(`${rangeForm.from}T00:00`);
+    const nextTo = parseDate(`${rangeForm.to}T23:59:59.999`);
+    if (!trackingId || !nextFrom || !nextTo || nextFrom >= nextTo) return;
+    const params = new URLSearchParams({ id: trackingId, from: nextFrom.toISOString(), to: nextTo.toISOString() });
+    router.replace(`/dashboard/analytics?${params.toString()}`);
+  };
+
+  if (!trackingId) {
+    return (
+      <div className={styles.page}>
+        <p className={styles.message}>No tracker selected. Open analytics from the dashboard.</p>
+        <Link href="/dashboard" className={styles.backLink}>← Back to dashboard</Link>
+      </div>
+    );
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className={styles.page}>
+        <div className="spinner"></div>
+      </div>
+    );
+  }
+
+  // Distances and speeds use the noise-filtered path, like the timeline;
+  // cadence and accuracy describe what the device actually sent
+  const path = filterNoise(locations, noiseFilter);
+  const days = daysBetween(from, to);
+  const distances = distancePerDay(path, days);
+  const weekdayHours = activeHoursPerWeekday(locations);
+  const cadence = updateCadencePerDay(locations, days);
+  const speeds = segmentSpeeds(path);
+  const speedBins = histogram(speeds, Math.max(1, percentile(speeds, 0.95)), HISTOGRAM_BINS);
+  const accuracies = locations.map((loc) => loc.accuracy);
+  const accuracyBins = histogram(accuracies, Math.max(10, percentile(accuracies, 0.95)), HISTOGRAM_BINS);
+  const color = tracker ? getTrackerColor(tracker) : undefined;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.toolbar}>
+        <Link href="/dashboard" className={styles.backLink}>← Back to dashboard</Link>
+        <form className={styles.rangeForm} onSubmit={handleApplyRange}>
+          <label>
+            From
+            <input
+              type="date"
+              value={rangeForm.from}
+              onChange={(e) => setRangeForm({ ...rangeForm, from: e.target.value })}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="date"
+              value={rangeForm.to}
+              onChange={(e) => setRangeForm({ ...rangeForm, to: e.target.value })}
+            />
+          </label>
+          <button type="submit" className="btn btn-secondary">Update</button>
+        </form>
+      </div>
+
+      {error ? (
+        <p className={styles.message}>{error}</p>
+      ) : tracker && (
+        <>
+          <header className={styles.header}>
+            <h1>📊 {tracker.name}</h1>
+            <p className={styles.period}>
+              {from.toLocaleDateString()} – {to.toLocaleDateString()} · {locations.length} fixes
+            </p>
+          </header>
+
+          {locations.length === 0 ? (
+            <p className={styles.message}>No locations were recorded in this period.</p>
+          ) : (
+            <div className={styles.grid}>
+              <section className={styles.card}>
+                <h2>Distance per day</h2>
+                <BarChart
+                  data={distances.map((d) => ({ label: shortDay(d.day), value: d.value }))}
+                  formatValue={formatDistance}
+                  color={color}
+                />
+              </section>
+
+              <section className={styles.card}>
+                <h2>Active hours per weekday</h2>
+                <BarChart
+                  data={weekdayHours.map((hours, i) => ({ label: WEEKDAY_LABELS[i], value: hours }))}
+                  formatValue={(hours) => `${hours.toFixed(1)} h`}
+                  color="#00ccff"
+                />
+              </section>
+
+              <section className={styles.card}>
+                <h2>Speed distribution</h2>
+                <BarChart
+                  data={speedBins.map((bin) => ({ label: formatSpeed(bin.from), value: bin.count }))}
+                  formatValue={(count) => `${count} segments`}
+                  color="#ffcc00"
+                />
+              </section>
+
+              <section className={styles.card}>
+                <h2>Update cadence (median interval)</h2>
+                <LineChart
+                  data={cadence.map((d) => ({ label: shortDay(d.day), value: d.value }))}
+                  formatValue={(seconds) => `${seconds.toFixed(0)} s`}
+                />
+              </section>
+
+              <section className={styles.card}>
+                <h2>Accuracy distribution</h2>
+                <BarChart
+                  data={accuracyBins.map((bin) => ({ label: `±${formatDistance(bin.from)}`, value: bin.count }))}
+                  formatValue={(count) => `${count} fixes`}
+                  color="#ff6633"
+                />
+              </section>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  return (
+    <Suspense fallback={
+      <div className={styles.page}>
+        <div className="spinner"></div>
+      </div>
+    }>
+      <AnalyticsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Tracker } from '@/lib/storage';
+import {
+  AccountBackup,
+  RestoreConflictMode,
+  RESTORE_CONFLICT_MODES,
+  createBackupAsync,
+  parseBackup,
+  remapGeofences,
+  restoreBackupAsync,
+  serializeBackup,
+} from '@/lib/account-backup';
+import { getStorageErrorMessage } from '@/lib/storage-errors';
+import { useGeofence } from '@/lib/geofence-context';
+import { useToast } from '@/components/Toast';
+import styles from './page.module.css';
+
+interface BackupPanelProps {
+  trackers: Tracker[];
+  onRestored: () => void;
+}
+
+export default function BackupPanel({ trackers, onRestored }: BackupPanelProps) {
+  const { showToast } = useToast();
+  const { geofences, geofenceStates, restoreGeofences } = useGeofence();
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [conflictMode, setConflictMode] = useState<RestoreConflictMode>('skip');
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const existingIds = new Set(trackers.map((t) => t.id));
+  const conflicts = backup ? backup.trackers.filter((t) => existingIds.has(t.id)).length : 0;
+  const busy = progress !== null;
+
+  const handleBackup = async () => {
+    setProgress('Preparing backup…');
+    try {
+      const archive = await createBackupAsync(trackers, geofences, geofenceStates, (done, total) =>
+        setProgress(`Backing up ${done}/${total}…`)
+      );
+      const blob = new Blob([serializeBackup(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `geotracker_backup_${archive.createdAt.slice(0, 10)}.json`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 100);
+      const points = archive.trackers.reduce((sum, t) => sum + t.locations.length, 0);
+      showToast(`Backed up ${archive.trackers.length} trackers and ${points} location points`, 'success');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (error) {
+      setBackup(null);
+      showToast(error instanceof Error ? error.message : String(error), 'error');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setProgress('Restoring…');
+    try {
+      const result = await restoreBackupAsync(backup, existingIds, conflictMode, (done, total) =>
+        setProgress(`Restoring ${done}/${total}…`)
+      );
+      const restored = remapGeofences(backup, result.trackerIds);
+      restoreGeofences(restored.geofences, restored.states);
+
+      const parts = [`${result.created} restored`];
+      if (result.merged > 0) parts.push(`${result.merged} merged`);
+      if (result.skipped > 0) parts.push(`${result.skipped} kept as is`);
+      if (result.failed.length > 0) parts.push(`${result.failed.length} failed`);
+      showToast(
+        `Trackers: ${parts.join(', ')}. ${result.locationsAdded} location points added.`,
+        result.failed.length > 0 ? 'error' : 'success'
+      );
+      setBackup(null);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className={styles.importPanel}>
+      <div className={styles.formGroup}>
+        <label>Account Backup</label>
+        <div className={styles.importActions}>
+          <button className="btn btn-secondary" onClick={handleBackup} disabled={busy || trackers.length === 0}>
+            💾 Backup
+          </button>
+          <label className={`btn btn-secondary ${styles.fileButton}`}>
+            ♻ Restore
+            <input type="file" accept=".json,application/json" onChange={handleFile} disabled={busy} hidden />
+          </label>
+          {progress && <span className={styles.backupProgress}>{progress}</span>}
+        </div>
+      </div>
+
+      {backup && (
+        <div className={styles.importPreview}>
+          <div className={styles.importSummary}>
+            Backup from {backup.createdAt ? new Date(backup.createdAt).toLocaleString() : 'an unknown date'} ·{' '}
+            {backup.trackers.length} tracker(s) · {backup.geofences.length} geofence(s)
+          </div>
+          <p className={styles.backupNote}>
+            Points older than a tracker&apos;s retention policy are removed again by the next retention run.
+          </p>
+
+          {conflicts > 0 && (
+            <div className={styles.formGroup}>
+              <label htmlFor="restoreConflict">{conflicts} tracker(s) already exist</label>
+              <select
+                id="restoreConflict"
+                value={conflictMode}
+                onChange={(e) => setConflictMode(e.target.value as RestoreConflictMode)}
+                className={styles.input}
+              >
+                {RESTORE_CONFLICT_MODES.map((m) => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className={styles.importActions}>
+            <button className="btn" onClick={handleRestore} disabled={busy}>
+              Restore {backup.trackers.length} Tracker(s)
+            </button>
+            <button className="btn btn-secondary" onClick={() => setBackup(null)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Tracker, LocationData, getFullHistoryAsync } from '@/lib/storage';
+import { computeFleetStats, startOfWeek } from '@/lib/fleet-stats';
+import { getLatestLocation } from '@/lib/tracker-summary';
+import { formatDuration } from '@/lib/stay-points';
+import { useGeofence } from '@/lib/geofence-context';
+import { useNoiseFilter } from '@/lib/noise-filter-context';
+import { useUnits } from '@/lib/units-context';
+import styles from './page.module.css';
+
+// Histories behind the distance and geofence figures are reloaded this often
+const FLEET_REFRESH_MS = 5 * 60 * 1000;
+// Live/idle/offline are re-evaluated this often without reloading anything
+const STATUS_TICK_MS = 30000;
+
+export interface FleetFilter {
+  label: string;
+  trackerIds: string[];
+}
+
+interface FleetPanelProps {
+  // Trackers to summarize; archived ones should already be left out
+  trackers: Tracker[];
+  activeFilter: FleetFilter | null;
+  onFilter: (filter: FleetFilter | null) => void;
+}
+
+export default function FleetPanel({ trackers, activeFilter, onFilter }: FleetPanelProps) {
+  const { geofences } = useGeofence();
+  const { noiseFilter } = useNoiseFilter();
+  const { formatDistance } = useUnits();
+  const [now, setNow] = useState(() => Date.now());
+  const [refreshTick, setRefreshTick] = useState(0);
+  const [weekHistories, setWeekHistories] = useState<Record<string, LocationData[]>>({});
+
+  useEffect(() => {
+    const statusTimer = setInterval(() => setNow(Date.now()), STATUS_TICK_MS);
+    const refreshTimer = setInterval(() => setRefreshTick((tick) => tick + 1), FLEET_REFRESH_MS);
+    return () => {
+      clearInterval(statusTimer);
+      clearInterval(refreshTimer);
+    };
+  }, []);
+
+  // Only trackers that reported this week can have moved this week
+  const weekStart = startOfWeek(now).toISOString();
+  const activeIds = trackers
+    .filter((t) => {
+      const latest = getLatestLocation(t);
+      return latest !== null && latest.timestamp >= weekStart;
+    })
+    .map((t) => t.id)
+    .join(',');
+
+  useEffect(() => {
+    if (!activeIds) {
+      setWeekHistories({});
+      return;
+    }
+    let cancelled = false;
+    const ids = activeIds.split(',');
+    Promise.all(
+      ids.map((id) =>
+        getFullHistoryAsync(id, { from: weekStart }).catch((error) => {
+          console.error('Error loading fleet history:', error);
+          return [];
+        })
+      )
+    ).then((histories) => {
+      if (!cancelled) setWeekHistories(Object.fromEntries(ids.map((id, i) => [id, histories[i]])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeIds, weekStart, refreshTick]);
+
+  if (trackers.length === 0) return null;
+
+  const stats = computeFleetStats(trackers, weekHistories, geofences, noiseFilter, now);
+  const oldest = stats.oldestSignal
+    ? { ...stats.oldestSignal, name: trackers.find((t) => t.id === stats.oldestSignal?.trackerId)?.name ?? '' }
+    : null;
+
+  const tiles: { label: string; value: string; detail?: string; trackerIds: string[]; tone?: string }[] = [
+    { label: 'Live', value: String(stats.status.live.length), trackerIds: stats.status.live, tone: styles.fleetLive },
+    { label: 'Idle', value: String(stats.status.idle.length), trackerIds: stats.status.idle },
+    {
+      label: 'Offline',
+      value: String(stats.status.offline.length),
+      detail: 'silent 1h+',
+      trackerIds: stats.status.offline,
+      tone: stats.status.offline.length > 0 ? styles.fleetWarn : undefined,
+    },
+    {
+      label: 'Distance today',
+      value: formatDistance(stats.distanceTodayMeters),
+      detail: `${stats.movedToday.length} moved`,
+      trackerIds: stats.movedToday,
+    },
+    {
+      label: 'Distance this week',
+      value: formatDistance(stats.distanceWeekMeters),
+      detail: `${stats.movedThisWeek.length} moved`,
+      trackerIds: stats.movedThisWeek,
+    },
+    {
+      label: 'Geofence events today',
+      value: String(stats.geofenceEventsToday),
+      detail: `${stats.geofenceEventTrackers.length} trackers`,
+      trackerIds: stats.geofenceEventTrackers,
+    },
+    {
+      label: 'Oldest signal',
+      value: oldest ? `${formatDuration(now - new Date(oldest.timestamp).getTime())} ago` : '—',
+      detail: oldest?.name,
+      trackerIds: oldest ? [oldest.trackerId] : [],
+    },
+    {
+      label: 'Poor accuracy',
+      value: String(stats.poorAccuracy.length),
+      detail: `latest fix worse than ±${formatDistance(noiseFilter.maxAccuracyMeters)}`,
+      trackerIds: stats.poorAccuracy,
+      tone: stats.poorAccuracy.length > 0 ? styles.fleetWarn : undefined,
+    },
+  ];
+
+  return (
+    <div className={styles.fleetPanel}>
+      <h2>Fleet Overview</h2>
+      <div className={styles.fleetGrid}>
+        {tiles.map((tile) => (
+          <button
+            key={tile.label}
+            className={`${styles.fleetTile} ${activeFilter?.label === tile.label ? styles.fleetTileActive : ''}`}
+            onClick={() => onFilter(activeFilter?.label === tile.label ? null : { label: tile.label, trackerIds: tile.trackerIds })}
+            disabled={tile.trackerIds.length === 0 && activeFilter?.label !== tile.label}
+            title="Show these trackers in the list"
+          >
+            <span className={styles.fleetLabel}>{tile.label}</span>
+            <span className={`${styles.fleetValue} ${tile.tone ?? ''}`}>{tile.value}</span>
+            {tile.detail && <span className={styles.fleetDetail}>{tile.detail}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
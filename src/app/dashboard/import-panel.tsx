@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { Tracker, createTrackerAsync, importLocationsAsync } from '@/lib/storage';
+import { ImportResult, parseImportFile } from '@/lib/track-import';
+import { getStorageErrorMessage } from '@/lib/storage-errors';
+import { useToast } from '@/components/Toast';
+import styles from './page.module.css';
+
+const ImportPreviewMap = dynamic(() => import('./import-preview-map'), { ssr: false });
+
+// Import target: a new tracker, or the ID of an existing one to merge into
+const NEW_TRACKER = 'new';
+
+interface ImportPanelProps {
+  trackers: Tracker[];
+  onImported: () => void;
+}
+
+export default function ImportPanel({ trackers, onImported }: ImportPanelProps) {
+  const { showToast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [trackIndex, setTrackIndex] = useState(0);
+  const [target, setTarget] = useState(NEW_TRACKER);
+  const [newName, setNewName] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const track = result?.tracks[trackIndex] ?? null;
+
+  // Default to merging back into the tracker a file was exported from, if it still exists
+  const selectTrack = (parsed: ImportResult, index: number) => {
+    const selected = parsed.tracks[index];
+    setTrackIndex(index);
+    setNewName(selected.name);
+    setTarget(selected.sourceId && trackers.some((t) => t.id === selected.sourceId) ? selected.sourceId : NEW_TRACKER);
+  };
+
+  const reset = () => {
+    setFileName('');
+    setResult(null);
+    setParseError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    setResult(null);
+    setParseError(null);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      setResult(parsed);
+      selectTrack(parsed, 0);
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!track || track.locations.length === 0) return;
+    if (target === NEW_TRACKER && !newName.trim()) {
+      showToast('Please enter a tracker designation', 'error');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      let trackerId = target;
+      if (target === NEW_TRACKER) {
+        const tracker = await createTrackerAsync(newName.trim().slice(0, 100));
+        if (!tracker) {
+          showToast('Failed to create tracker. Please try again.', 'error');
+          return;
+        }
+        trackerId = tracker.id;
+      }
+
+      const added = await importLocationsAsync(trackerId, track.locations);
+      const duplicates = track.locations.length - added;
+      showToast(
+        `Imported ${added} location point(s)` + (duplicates > 0 ? `, skipped ${duplicates} already recorded` : ''),
+        'success'
+      );
+      reset();
+      onImported();
+    } catch (error) {
+      console.error('Error importing locations:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.importPanel}>
+      <div className={styles.formGroup}>
+        <label htmlFor="importFile">Import History (JSON, CSV or GPX)</label>
+        <input
+          type="file"
+          id="importFile"
+          accept=".json,.csv,.gpx,application/json,text/csv,application/gpx+xml"
+          onChange={handleFile}
+          className={styles.importFileInput}
+        />
+      </div>
+
+      {parseError && <div className={styles.importError}>⚠ {parseError}</div>}
+
+      {result && track && (
+        <div className={styles.importPreview}>
+          <div className={styles.importSummary}>
+            <strong>{fileName}</strong> · {result.format.toUpperCase()} · {result.tracks.length} track(s)
+          </div>
+
+          {result.tracks.length > 1 && (
+            <div className={styles.formGroup}>
+              <label htmlFor="importTrack">Track</label>
+              <select
+                id="importTrack"
+                value={trackIndex}
+                onChange={(e) => selectTrack(result, Number(e.target.value))}
+                className={styles.input}
+              >
+                {result.tracks.map((t, i) => (
+                  <option key={i} value={i}>
+                    {t.name} ({t.locations.length} points)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className={styles.importStats}>
+            <span>{track.locations.length} valid point(s)</span>
+            {track.skipped > 0 && <span className={styles.importSkipped}>{track.skipped} invalid skipped</span>}
+            {track.locations.length > 0 && (
+              <span>
+                {new Date(track.locations[0].timestamp).toLocaleString()} →{' '}
+                {new Date(track.locations[track.locations.length - 1].timestamp).toLocaleString()}
+              </span>
+            )}
+          </div>
+
+          {track.locations.length > 0 && (
+            <div className={styles.importMap}>
+              <ImportPreviewMap locations={track.locations} />
+            </div>
+          )}
+
+          <div className={styles.formGroup}>
+            <label htmlFor="importTarget">Import Into</label>
+            <select
+              id="importTarget"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className={styles.input}
+            >
+              <option value={NEW_TRACKER}>➕ New tracker</option>
+              {trackers.map((t) => (
+                <option key={t.id} value={t.id}>
+                  Merge into {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {target === NEW_TRACKER && (
+            <div className={styles.formGroup}>
+              <label htmlFor="importName">New Tracker Designation</label>
+              <input
+                type="text"
+                id="importName"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                className={styles.input}
+              />
+            </div>
+          )}
+
+          <div className={styles.importActions}>
+            <button className="btn" onClick={handleImport} disabled={importing || track.locations.length === 0}>
+              {importing ? 'Importing…' : `Import ${track.locations.length} Point(s)`}
+            </button>
+            <button className="btn btn-secondary" onClick={reset} disabled={importing}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
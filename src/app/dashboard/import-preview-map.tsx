@@ -0,0 +1,48 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import L from 'leaflet';
+import { MapContainer, TileLayer, Polyline, CircleMarker, useMap } from 'react-leaflet';
+import type { LocationData } from '@/lib/storage';
+import 'leaflet/dist/leaflet.css';
+
+interface ImportPreviewMapProps {
+  locations: LocationData[];
+}
+
+// Re-fit whenever a different track is previewed
+function FitTrack({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length > 0) {
+      map.fitBounds(L.latLngBounds(positions), { padding: [20, 20], maxZoom: 16 });
+    }
+  }, [positions, map]);
+
+  return null;
+}
+
+export default function ImportPreviewMap({ locations }: ImportPreviewMapProps) {
+  const positions = useMemo(
+    () => locations.map((loc): [number, number] => [loc.latitude, loc.longitude]),
+    [locations]
+  );
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+
+  return (
+    <MapContainer center={first ?? [20, 0]} zoom={first ? 12 : 2} style={{ height: '100%', width: '100%' }}>
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/">CARTO</a>'
+        url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
+      />
+      <FitTrack positions={positions} />
+      {positions.length > 1 && (
+        <Polyline positions={positions} pathOptions={{ color: '#00ff88', weight: 3, opacity: 0.9 }} />
+      )}
+      {first && <CircleMarker center={first} radius={6} pathOptions={{ color: '#00ccff', fillOpacity: 0.9 }} />}
+      {last && <CircleMarker center={last} radius={6} pathOptions={{ color: '#ff3366', fillOpacity: 0.9 }} />}
+    </MapContainer>
+  );
+}
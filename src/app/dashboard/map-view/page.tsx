@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
@@ -10,37 +10,84 @@ import {
   Tracker,
   LocationData,
   getTrackersAsync,
-  subscribeToTrackers,
+  getLocationsAsync,
+  subscribeToTrackerSummaries,
 } from '@/lib/storage';
+import { LocationRange, rangeForLast } from '@/lib/location-range';
+import { getTrackerColor } from '@/lib/tracker-color';
+import { isArchived } from '@/lib/tracker-status';
+import { isAccessError } from '@/lib/storage-errors';
+import { getLatestLocation, getLocationCount } from '@/lib/tracker-summary';
+import { useGeofence } from '@/lib/geofence-context';
+import { useNoiseFilter } from '@/lib/noise-filter-context';
+import { filterNoise } from '@/lib/noise-filter';
+import { detectStayPoints } from '@/lib/stay-points';
+import { findTrip, splitTrips, tripStats } from '@/lib/trips';
+import { useUnits } from '@/lib/units-context';
+import { DEFAULT_HEATMAP, HEATMAP_POINTS_PER_TRACKER, HeatmapSettings, heatmapPoints } from '@/lib/heatmap';
+import { GeocodeResult, isGeocodingEnabled, searchAddress } from '@/lib/geocoding';
+import { geofencesToGeoJSON } from '@/lib/formats/geojson';
 import styles from './page.module.css';
 
 // Dynamically import the map component to avoid SSR issues with Leaflet
 const TrackerMap = dynamic(() => import('./tracker-map'), { ssr: false });
 
+// History windows for the selected tracker's path; 'all' loads the most recent fixes
+const HISTORY_WINDOWS: Record<string, number> = {
+  '1h': 3600000,
+  '6h': 21600000,
+  '24h': 86400000,
+  '7d': 604800000,
+};
+
+function historyRange(windowKey: string): LocationRange {
+  const duration = HISTORY_WINDOWS[windowKey];
+  return duration ? rangeForLast(duration) : {};
+}
+
 export default function MapView() {
   const router = useRouter();
   const { user, loading: authLoading } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { geofences } = useGeofence();
+  const { noiseFilter, updateNoiseFilter } = useNoiseFilter();
+  const { formatDistance } = useUnits();
   const [trackers, setTrackers] = useState<Tracker[]>([]);
   const [loading, setLoading] = useState(true);
-  const [permissionError, setPermissionError] = useState(false);
+  const [accessError, setAccessError] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedTrackerId, setSelectedTrackerId] = useState<string | null>(null);
+  const [historyWindow, setHistoryWindow] = useState<string>('all');
+  // Only the selected tracker's history is loaded; the others show their latest fix
+  const [selectedHistory, setSelectedHistory] = useState<LocationData[]>([]);
+  // Start timestamp of the trip shown alone on the map
+  const [selectedTripStart, setSelectedTripStart] = useState<string | null>(null);
+  // Draw every fix of the selected path instead of simplifying it for the zoom level
+  const [fullDetail, setFullDetail] = useState(false);
+  const [heatmap, setHeatmap] = useState<HeatmapSettings>(DEFAULT_HEATMAP);
+  // Histories behind the heatmap, loaded for every shown tracker while it is on
+  const [heatmapHistories, setHeatmapHistories] = useState<LocationData[][]>([]);
+  const [addressQuery, setAddressQuery] = useState('');
+  // null until a search has run, so "no results" is only shown after one
+  const [addressResults, setAddressResults] = useState<GeocodeResult[] | null>(null);
+  const [searchingAddress, setSearchingAddress] = useState(false);
+  const [searchResult, setSearchResult] = useState<GeocodeResult | null>(null);
 
   const loadTrackers = useCallback(async () => {
-    if (permissionError) return;
+    if (accessError) return;
     try {
-      const storedTrackers = await getTrackersAsync();
-      setTrackers(storedTrackers);
+      const storedTrackers = await getTrackersAsync({ limit: 1 });
+      // Archived trackers are kept for the record but not shown on the live map
+      setTrackers(storedTrackers.filter((t) => !isArchived(t)));
     } catch (error) {
       console.error('Error loading trackers:', error);
-      if (error instanceof Error && error.message.includes('insufficient permissions')) {
-        setPermissionError(true);
+      if (isAccessError(error)) {
+        setAccessError(true);
       }
     } finally {
       setLoading(false);
     }
-  }, [permissionError]);
+  }, [accessError]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -51,17 +98,17 @@ export default function MapView() {
     if (user) {
       loadTrackers();
 
-      if (!permissionError) {
+      if (!accessError) {
         let fallbackInterval: NodeJS.Timeout | null = null;
-        const unsubscribe = subscribeToTrackers(
+        const unsubscribe = subscribeToTrackerSummaries(
           (updatedTrackers) => {
-            setTrackers(updatedTrackers);
+            setTrackers(updatedTrackers.filter((t) => !isArchived(t)));
             setLoading(false);
           },
           (error) => {
             console.error('Real-time subscription error:', error);
-            if (error.message.includes('insufficient permissions')) {
-              setPermissionError(true);
+            if (isAccessError(error)) {
+              setAccessError(true);
             }
             fallbackInterval = setInterval(loadTrackers, 10000);
           }
@@ -72,24 +119,106 @@ export default function MapView() {
         };
       }
     }
-  }, [router, loadTrackers, user, authLoading, permissionError]);
+  }, [router, loadTrackers, user, authLoading, accessError]);
+
+  // Load the selected tracker's path, again whenever it records a new fix
+  const selectedLastFix = trackers.find((t) => t.id === selectedTrackerId)?.summary?.lastTimestamp;
+  useEffect(() => {
+    if (!selectedTrackerId) {
+      setSelectedHistory([]);
+      return;
+    }
+    let cancelled = false;
+    getLocationsAsync(selectedTrackerId, historyRange(historyWindow))
+      .then((locations) => {
+        if (!cancelled) setSelectedHistory(locations);
+      })
+      .catch((error) => console.error('Error loading location history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTrackerId, selectedLastFix, historyWindow]);
+
+  useEffect(() => {
+    setSelectedTripStart(null);
+  }, [selectedTrackerId]);
+
+  const selectedTrips = useMemo(() => splitTrips(selectedHistory), [selectedHistory]);
+  const selectedTrip = findTrip(selectedTrips, selectedTripStart);
+  // Memoized so the map's simplified paths are reused until the history changes
+  const selectedPaths = useMemo(() => {
+    const paths = selectedTrip
+      ? [selectedTrip.locations]
+      : selectedTrips.length > 0 ? selectedTrips.map((trip) => trip.locations) : [selectedHistory];
+    return paths.map((path) => filterNoise(path, noiseFilter));
+  }, [selectedTrip, selectedTrips, selectedHistory, noiseFilter]);
+
+  const handleAddressSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!addressQuery.trim()) return;
+    setSearchingAddress(true);
+    try {
+      const results = await searchAddress(addressQuery);
+      setAddressResults(results);
+      // Jump straight to an unambiguous match
+      if (results.length === 1) setSearchResult(results[0]);
+    } catch (error) {
+      console.error('Address search failed:', error);
+      setAddressResults([]);
+    } finally {
+      setSearchingAddress(false);
+    }
+  };
 
   const filteredTrackers = trackers.filter((t) =>
     t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     t.id.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const trackersWithLocations = filteredTrackers.filter(
-    (t) => t.locations.length > 0
+  const trackersWithLocations = filteredTrackers.filter((t) => getLatestLocation(t) !== null);
+
+  // Reload when the set of shown trackers changes, not on every summary update
+  const heatmapTrackerIds = trackersWithLocations.map((t) => t.id).join(',');
+  useEffect(() => {
+    if (!heatmap.enabled || !heatmapTrackerIds) {
+      setHeatmapHistories([]);
+      return;
+    }
+    let cancelled = false;
+    const range = { ...historyRange(heatmap.window), limit: HEATMAP_POINTS_PER_TRACKER };
+    Promise.all(
+      heatmapTrackerIds.split(',').map((id) =>
+        getLocationsAsync(id, range).catch((error) => {
+          console.error('Error loading heatmap history:', error);
+          return [];
+        })
+      )
+    ).then((histories) => {
+      if (!cancelled) setHeatmapHistories(histories);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [heatmap.enabled, heatmap.window, heatmapTrackerIds]);
+
+  // Trackers whose history in the window goes back further than the loaded fixes
+  const heatmapTruncated = heatmapHistories.filter((history) => history.length >= HEATMAP_POINTS_PER_TRACKER).length;
+
+  const heatPoints = useMemo(
+    () => heatmapHistories.flatMap((history) => heatmapPoints(history, heatmap.weightByDwell)),
+    [heatmapHistories, heatmap.weightByDwell]
   );
 
+  // Geofences of the trackers on the map, as GeoJSON polygons
+  const visibleIds = new Set(filteredTrackers.map((t) => t.id));
+  const geofenceShapes = geofencesToGeoJSON(geofences.filter((g) => visibleIds.has(g.trackerId)));
+
   const liveCount = trackers.filter((t) => {
-    if (t.locations.length === 0) return false;
-    const lastTime = new Date(t.locations[t.locations.length - 1].timestamp).getTime();
-    return Date.now() - lastTime < 60000;
+    const latest = getLatestLocation(t);
+    return latest !== null && Date.now() - new Date(latest.timestamp).getTime() < 60000;
   }).length;
 
-  const totalLocations = trackers.reduce((sum, t) => sum + t.locations.length, 0);
+  const totalLocations = trackers.reduce((sum, t) => sum + getLocationCount(t), 0);
 
   if (authLoading || loading) {
     return (
@@ -153,6 +282,139 @@ export default function MapView() {
               onChange={(e) => setSearchQuery(e.target.value)}
               className={styles.searchInput}
             />
+            {isGeocodingEnabled() && (
+              <form className={styles.addressSearch} onSubmit={handleAddressSearch}>
+                <input
+                  type="text"
+                  placeholder="📍 Go to address..."
+                  value={addressQuery}
+                  onChange={(e) => setAddressQuery(e.target.value)}
+                  className={styles.searchInput}
+                />
+                <button type="submit" className={styles.windowFilterBtn} disabled={searchingAddress}>
+                  {searchingAddress ? '...' : 'Go'}
+                </button>
+              </form>
+            )}
+            {addressResults && (
+              <div className={styles.addressResults}>
+                {addressResults.length === 0 ? (
+                  <div className={styles.addressEmpty}>No places found.</div>
+                ) : addressResults.map((result) => (
+                  <button
+                    key={`${result.latitude},${result.longitude}`}
+                    className={`${styles.addressResult} ${searchResult === result ? styles.addressResultActive : ''}`}
+                    onClick={() => setSearchResult(result)}
+                  >
+                    {result.label}
+                  </button>
+                ))}
+                <button
+                  className={styles.addressClear}
+                  onClick={() => {
+                    setAddressResults(null);
+                    setSearchResult(null);
+                  }}
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+            <div className={styles.windowFilters}>
+              {['all', '1h', '6h', '24h', '7d'].map((w) => (
+                <button
+                  key={w}
+                  className={`${styles.windowFilterBtn} ${historyWindow === w ? styles.windowFilterActive : ''}`}
+                  onClick={() => setHistoryWindow(w)}
+                >
+                  {w === 'all' ? 'Latest' : w}
+                </button>
+              ))}
+              <button
+                className={`${styles.windowFilterBtn} ${noiseFilter.enabled ? styles.windowFilterActive : ''}`}
+                onClick={() => updateNoiseFilter({ enabled: !noiseFilter.enabled })}
+                title="Toggle between the raw GPS path and the noise-filtered path"
+              >
+                {noiseFilter.enabled ? 'Filtered' : 'Raw'}
+              </button>
+              <button
+                className={`${styles.windowFilterBtn} ${fullDetail ? styles.windowFilterActive : ''}`}
+                onClick={() => setFullDetail(!fullDetail)}
+                title="Draw every fix instead of a path simplified for the zoom level"
+              >
+                Full detail
+              </button>
+            </div>
+            {selectedTrips.length > 0 && (
+              <select
+                className={styles.tripSelect}
+                value={selectedTrip?.start ?? ''}
+                onChange={(e) => setSelectedTripStart(e.target.value || null)}
+              >
+                <option value="">All trips ({selectedTrips.length})</option>
+                {selectedTrips.map((trip, index) => (
+                  <option key={trip.start} value={trip.start}>
+                    Trip {index + 1}: {new Date(trip.start).toLocaleString()} · {formatDistance(tripStats(filterNoise(trip.locations, noiseFilter)).distanceMeters)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className={styles.heatmapControls}>
+              <button
+                className={`${styles.windowFilterBtn} ${heatmap.enabled ? styles.windowFilterActive : ''}`}
+                onClick={() => setHeatmap({ ...heatmap, enabled: !heatmap.enabled })}
+                title="Shade where the shown trackers spent their time"
+              >
+                🔥 Heatmap
+              </button>
+              {heatmap.enabled && (
+                <>
+                  <select
+                    className={styles.heatmapWindow}
+                    value={heatmap.window}
+                    onChange={(e) => setHeatmap({ ...heatmap, window: e.target.value })}
+                  >
+                    {Object.keys(HISTORY_WINDOWS).map((w) => (
+                      <option key={w} value={w}>Last {w}</option>
+                    ))}
+                  </select>
+                  <label className={styles.heatmapSlider}>
+                    Radius
+                    <input
+                      type="range"
+                      min={10}
+                      max={60}
+                      value={heatmap.radius}
+                      onChange={(e) => setHeatmap({ ...heatmap, radius: Number(e.target.value) })}
+                    />
+                  </label>
+                  <label className={styles.heatmapSlider}>
+                    Intensity
+                    <input
+                      type="range"
+                      min={0.2}
+                      max={5}
+                      step={0.1}
+                      value={heatmap.intensity}
+                      onChange={(e) => setHeatmap({ ...heatmap, intensity: Number(e.target.value) })}
+                    />
+                  </label>
+                  <label className={styles.heatmapSlider}>
+                    <input
+                      type="checkbox"
+                      checked={heatmap.weightByDwell}
+                      onChange={(e) => setHeatmap({ ...heatmap, weightByDwell: e.target.checked })}
+                    />
+                    Weight by dwell time
+                  </label>
+                  {heatmapTruncated > 0 && (
+                    <span className={styles.heatmapNotice} role="status">
+                      Showing the latest {HEATMAP_POINTS_PER_TRACKER} fixes of {heatmapTruncated} tracker{heatmapTruncated === 1 ? '' : 's'}
+                    </span>
+                  )}
+                </>
+              )}
+            </div>
           </div>
           <div className={styles.trackerList}>
             {filteredTrackers.length === 0 ? (
@@ -161,10 +423,8 @@ export default function MapView() {
               </div>
             ) : (
               filteredTrackers.map((tracker) => {
-                const hasLocations = tracker.locations.length > 0;
-                const latestLoc = hasLocations
-                  ? tracker.locations[tracker.locations.length - 1]
-                  : null;
+                const latestLoc = getLatestLocation(tracker);
+                const hasLocations = latestLoc !== null;
                 const isLive = latestLoc
                   ? Date.now() - new Date(latestLoc.timestamp).getTime() < 60000
                   : false;
@@ -177,11 +437,17 @@ export default function MapView() {
                       selectedTrackerId === tracker.id ? null : tracker.id
                     )}
                   >
-                    <div className={styles.trackerItemName}>{tracker.name}</div>
+                    <div className={styles.trackerItemName}>
+                      <span
+                        className={styles.colorDot}
+                        style={{ background: getTrackerColor(tracker) }}
+                      />
+                      {tracker.name}
+                    </div>
                     <div className={styles.trackerItemId}>ID: {tracker.id.substring(0, 20)}...</div>
                     <div className={styles.trackerItemMeta}>
                       <span className={styles.coordsBadge}>
-                        {tracker.locations.length} pts
+                        {getLocationCount(tracker)} pts
                       </span>
                       {hasLocations && (
                         <span className={isLive ? styles.statusLive : styles.statusIdle}>
@@ -200,6 +466,12 @@ export default function MapView() {
           <TrackerMap
             trackers={filteredTrackers}
             selectedTrackerId={selectedTrackerId}
+            selectedPaths={selectedPaths}
+            fullDetail={fullDetail}
+            searchResult={searchResult}
+            heatmap={heatmap.enabled ? { points: heatPoints, radius: heatmap.radius, intensity: heatmap.intensity } : null}
+            stays={detectStayPoints(selectedTrip ? selectedTrip.locations : selectedHistory)}
+            geofenceShapes={geofenceShapes}
             onSelectTracker={setSelectedTrackerId}
           />
         </div>
@@ -1,9 +1,18 @@
 'use client';
 
-import { Fragment, useEffect, useRef } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
-import type { Tracker } from '@/lib/storage';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, GeoJSON, CircleMarker, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import type { LocationData, Tracker } from '@/lib/storage';
+import { getTrackerColor } from '@/lib/tracker-color';
+import { getLatestLocation, getLocationCount } from '@/lib/tracker-summary';
+import type { FeatureCollection } from '@/lib/formats/geojson';
+import { StayPoint, formatDuration } from '@/lib/stay-points';
+import { simplifyPath, toleranceForZoom } from '@/lib/simplify';
+import type { HeatPoint } from '@/lib/heatmap';
+import type { GeocodeResult } from '@/lib/geocoding';
+import Address from '@/components/Address';
+import { useUnits } from '@/lib/units-context';
 import 'leaflet/dist/leaflet.css';
 
 // Fix Leaflet default icon issue in bundled environments
@@ -33,7 +42,19 @@ L.Marker.prototype.options.icon = defaultIcon;
 interface TrackerMapProps {
   trackers: Tracker[];
   selectedTrackerId: string | null;
+  // History of the selected tracker, one path per trip so gaps are not bridged
+  selectedPaths: LocationData[][];
+  // Draw every fix regardless of zoom; otherwise full detail starts at FULL_DETAIL_ZOOM
+  fullDetail?: boolean;
+  // Stops detected in the selected tracker's history
+  stays: StayPoint[];
+  // Geofence polygons for the trackers shown
+  geofenceShapes: FeatureCollection;
   onSelectTracker: (id: string | null) => void;
+  // Heatmap of the shown trackers' histories; null hides the layer
+  heatmap?: { points: HeatPoint[]; radius: number; intensity: number } | null;
+  // Address search result to fly to and mark
+  searchResult?: GeocodeResult | null;
 }
 
 // Component to handle map view changes when a tracker is selected
@@ -43,8 +64,8 @@ function MapFlyTo({ trackers, selectedTrackerId }: { trackers: Tracker[]; select
   useEffect(() => {
     if (selectedTrackerId) {
       const tracker = trackers.find((t) => t.id === selectedTrackerId);
-      if (tracker && tracker.locations.length > 0) {
-        const latest = tracker.locations[tracker.locations.length - 1];
+      const latest = tracker ? getLatestLocation(tracker) : null;
+      if (latest) {
         map.flyTo([latest.latitude, latest.longitude], 15, { duration: 1 });
       }
     }
@@ -63,8 +84,8 @@ function FitBounds({ trackers }: { trackers: Tracker[] }) {
 
     const allPositions: [number, number][] = [];
     trackers.forEach((tracker) => {
-      if (tracker.locations.length > 0) {
-        const latest = tracker.locations[tracker.locations.length - 1];
+      const latest = getLatestLocation(tracker);
+      if (latest) {
         allPositions.push([latest.latitude, latest.longitude]);
       }
     });
@@ -79,23 +100,167 @@ function FitBounds({ trackers }: { trackers: Tracker[] }) {
   return null;
 }
 
-// Color palette for tracker polylines
-const POLYLINE_COLORS = [
-  '#00ff88', '#00ccff', '#ff00ff', '#ffcc00', '#ff3366',
-  '#66ff66', '#6699ff', '#ff66cc', '#ffff66', '#ff9933',
+// Fly to an address search result when a new one is picked
+function FlyToResult({ result }: { result: GeocodeResult | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (result) {
+      map.flyTo([result.latitude, result.longitude], 16, { duration: 1 });
+    }
+  }, [result, map]);
+
+  return null;
+}
+
+// Opacity one point of weight 1 adds to the heatmap at intensity 1
+const HEAT_POINT_ALPHA = 0.05;
+
+// Cool to hot colors by accumulated density
+const HEAT_GRADIENT: [number, string][] = [
+  [0.25, '#0000ff'],
+  [0.45, '#00ffff'],
+  [0.65, '#00ff00'],
+  [0.85, '#ffff00'],
+  [1, '#ff0000'],
 ];
 
-export default function TrackerMap({ trackers, selectedTrackerId, onSelectTracker }: TrackerMapProps) {
-  const trackersWithLocations = trackers.filter((t) => t.locations.length > 0);
+// 256 RGBA colors indexed by density, sampled from HEAT_GRADIENT
+function heatPalette(): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  HEAT_GRADIENT.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+}
 
-  const defaultCenter: [number, number] = trackersWithLocations.length > 0
-    ? [
-        trackersWithLocations[0].locations[trackersWithLocations[0].locations.length - 1].latitude,
-        trackersWithLocations[0].locations[trackersWithLocations[0].locations.length - 1].longitude,
-      ]
+// Soft round brush stamped once per point
+function heatBrush(radius: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = radius * 2;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const gradient = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, radius * 2, radius * 2);
+  return canvas;
+}
+
+// Canvas heatmap redrawn after every pan and zoom. Points are stamped as
+// grayscale alpha, so overlaps add up, then the alpha is mapped to colors.
+function HeatmapLayer({ points, radius, intensity }: { points: HeatPoint[]; radius: number; intensity: number }) {
+  const map = useMap();
+
+  useEffect(() => {
+    // leaflet-zoom-hide keeps the stale image hidden during the zoom animation
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide', map.getPanes().overlayPane) as HTMLCanvasElement;
+    canvas.style.pointerEvents = 'none';
+    const brush = heatBrush(radius);
+    const palette = heatPalette();
+
+    const draw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      // The overlay pane moves while panning; pin the canvas to the viewport
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+      const ctx = canvas.getContext('2d');
+      if (!ctx || size.x === 0 || size.y === 0) return;
+
+      points.forEach((point) => {
+        const { x, y } = map.latLngToContainerPoint([point.latitude, point.longitude]);
+        if (x < -radius || y < -radius || x > size.x + radius || y > size.y + radius) return;
+        ctx.globalAlpha = Math.min(1, point.weight * intensity * HEAT_POINT_ALPHA);
+        ctx.drawImage(brush, x - radius, y - radius);
+      });
+
+      const image = ctx.getImageData(0, 0, size.x, size.y);
+      const pixels = image.data;
+      for (let i = 0; i < pixels.length; i += 4) {
+        const density = pixels[i + 3];
+        if (density === 0) continue;
+        pixels[i] = palette[density * 4];
+        pixels[i + 1] = palette[density * 4 + 1];
+        pixels[i + 2] = palette[density * 4 + 2];
+        pixels[i + 3] = Math.min(200, density * 2);
+      }
+      ctx.putImageData(image, 0, 0);
+    };
+
+    draw();
+    map.on('moveend zoomend resize', draw);
+    return () => {
+      map.off('moveend zoomend resize', draw);
+      canvas.remove();
+    };
+  }, [map, points, radius, intensity]);
+
+  return null;
+}
+
+// Report the rounded zoom level whenever the user finishes zooming
+function ZoomListener({ onZoom }: { onZoom: (zoom: number) => void }) {
+  const map = useMapEvents({
+    zoomend: () => onZoom(Math.round(map.getZoom())),
+  });
+  return null;
+}
+
+type PathCacheEntry = {
+  source: LocationData[][];
+  byZoom: Map<number, [number, number][][]>;
+};
+
+export default function TrackerMap({
+  trackers,
+  selectedTrackerId,
+  selectedPaths,
+  fullDetail = false,
+  stays,
+  geofenceShapes,
+  onSelectTracker,
+  heatmap = null,
+  searchResult = null,
+}: TrackerMapProps) {
+  const { units, formatDistance } = useUnits();
+  // The GeoJSON layer does not redraw when its props change, so key it on the contents
+  const geofenceKey = `${units}:${geofenceShapes.features.map((f) => f.id).join(',')}`;
+  const colorById = new Map(trackers.map((t) => [t.id, getTrackerColor(t)]));
+
+  const trackersWithLocations = trackers.filter((t) => getLatestLocation(t) !== null);
+  const firstLatest = trackersWithLocations.length > 0 ? getLatestLocation(trackersWithLocations[0]) : null;
+
+  const defaultCenter: [number, number] = firstLatest
+    ? [firstLatest.latitude, firstLatest.longitude]
     : [20, 0];
 
   const defaultZoom = trackersWithLocations.length > 0 ? 10 : 2;
+  const [zoom, setZoom] = useState(defaultZoom);
+
+  // Simplified paths per tracker and zoom level, dropped when the tracker's paths change
+  const pathCache = useRef(new Map<string, PathCacheEntry>());
+  const simplifiedPaths = (trackerId: string, paths: LocationData[][]): [number, number][][] => {
+    const level = fullDetail ? Infinity : zoom;
+    let entry = pathCache.current.get(trackerId);
+    if (!entry || entry.source !== paths) {
+      entry = { source: paths, byZoom: new Map() };
+      pathCache.current.set(trackerId, entry);
+    }
+    let simplified = entry.byZoom.get(level);
+    if (!simplified) {
+      simplified = paths.map((path) => {
+        const tolerance = path.length > 0 ? toleranceForZoom(level, path[0].latitude) : 0;
+        return simplifyPath(path, tolerance).map((loc): [number, number] => [loc.latitude, loc.longitude]);
+      });
+      entry.byZoom.set(level, simplified);
+    }
+    return simplified;
+  };
 
   return (
     <MapContainer
@@ -109,35 +274,76 @@ export default function TrackerMap({ trackers, selectedTrackerId, onSelectTracke
         url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
       />
 
+      <ZoomListener onZoom={setZoom} />
+      {heatmap && <HeatmapLayer points={heatmap.points} radius={heatmap.radius} intensity={heatmap.intensity} />}
       <MapFlyTo trackers={trackers} selectedTrackerId={selectedTrackerId} />
+      <FlyToResult result={searchResult} />
       <FitBounds trackers={trackersWithLocations} />
 
-      {trackersWithLocations.map((tracker, trackerIndex) => {
-        const latestLoc = tracker.locations[tracker.locations.length - 1];
+      {geofenceShapes.features.length > 0 && (
+        <GeoJSON
+          key={geofenceKey}
+          data={geofenceShapes}
+          style={(feature) => {
+            const color = colorById.get(feature?.properties?.trackerId) ?? '#00ff88';
+            return { color, weight: 2, dashArray: '6 4', fillOpacity: 0.1 };
+          }}
+          onEachFeature={(feature, layer) => {
+            layer.bindTooltip(`${feature.properties.name} (${formatDistance(feature.properties.radiusMeters)})`);
+          }}
+        />
+      )}
+
+      {searchResult && (
+        <CircleMarker
+          center={[searchResult.latitude, searchResult.longitude]}
+          radius={8}
+          pathOptions={{ color: '#ffffff', fillColor: '#ff3366', fillOpacity: 0.9, weight: 2 }}
+        >
+          <Tooltip>{searchResult.label}</Tooltip>
+        </CircleMarker>
+      )}
+
+      {selectedTrackerId && stays.map((stay) => (
+        <CircleMarker
+          key={stay.arrival}
+          center={[stay.latitude, stay.longitude]}
+          radius={8}
+          pathOptions={{ color: '#cc7a00', fillColor: '#ffaa00', fillOpacity: 0.8, weight: 2 }}
+        >
+          <Tooltip>
+            ⏸ Stopped {formatDuration(stay.durationMs)}
+            <br />
+            {new Date(stay.arrival).toLocaleString()} – {new Date(stay.departure).toLocaleTimeString()}
+            <br />
+            <Address latitude={stay.latitude} longitude={stay.longitude} />
+          </Tooltip>
+        </CircleMarker>
+      ))}
+
+      {trackersWithLocations.map((tracker) => {
+        const latestLoc = getLatestLocation(tracker) as LocationData;
         const isLive = Date.now() - new Date(latestLoc.timestamp).getTime() < 60000;
         const isSelected = selectedTrackerId === tracker.id;
-        const polylineColor = POLYLINE_COLORS[trackerIndex % POLYLINE_COLORS.length];
+        const polylineColor = getTrackerColor(tracker);
 
-        // Build polyline path from all locations
-        const path: [number, number][] = tracker.locations.map((loc) => [
-          loc.latitude,
-          loc.longitude,
-        ]);
+        // Only the selected tracker's history is loaded, so only it gets paths
+        const paths = isSelected ? simplifiedPaths(tracker.id, selectedPaths) : [];
 
         return (
           <Fragment key={tracker.id}>
-            {/* Polyline showing movement history */}
-            {tracker.locations.length > 1 && (
+            {/* Polylines showing movement history */}
+            {paths.map((path, index) => path.length > 1 && (
               <Polyline
+                key={index}
                 positions={path}
                 pathOptions={{
                   color: polylineColor,
-                  weight: isSelected ? 4 : 2,
-                  opacity: isSelected ? 0.9 : 0.5,
-                  dashArray: isSelected ? undefined : '5, 10',
+                  weight: 4,
+                  opacity: 0.9,
                 }}
               />
-            )}
+            ))}
 
             {/* Marker at latest location */}
             <Marker
@@ -179,8 +385,11 @@ export default function TrackerMap({ trackers, selectedTrackerId, onSelectTracke
                   <div style={{ fontSize: '12px', marginBottom: '4px' }}>
                     <strong>Lng:</strong> {latestLoc.longitude.toFixed(6)}
                   </div>
+                  <div style={{ fontSize: '12px', marginBottom: '4px', maxWidth: '260px' }}>
+                    <Address latitude={latestLoc.latitude} longitude={latestLoc.longitude} />
+                  </div>
                   <div style={{ fontSize: '12px', marginBottom: '4px' }}>
-                    <strong>Accuracy:</strong> ±{latestLoc.accuracy.toFixed(2)}m
+                    <strong>Accuracy:</strong> ±{formatDistance(latestLoc.accuracy)}
                   </div>
                   {latestLoc.deviceInfo && (
                     <div style={{ fontSize: '12px', marginBottom: '4px' }}>
@@ -196,7 +405,7 @@ export default function TrackerMap({ trackers, selectedTrackerId, onSelectTracke
                     Last update: {new Date(latestLoc.timestamp).toLocaleString()}
                   </div>
                   <div style={{ fontSize: '11px', color: '#888' }}>
-                    {tracker.locations.length} location(s) recorded
+                    {getLocationCount(tracker)} location(s) recorded
                   </div>
                 </div>
               </Popup>
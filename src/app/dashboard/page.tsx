@@ -1,78 +1,136 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
 import { useTheme } from '@/lib/theme-context';
 import {
   Tracker,
+  TrackerStatus,
   LocationData,
+  HistoryStats,
   getTrackersAsync,
+  getLocationsAsync,
+  getFullHistoryAsync,
   createTrackerAsync,
+  updateTrackerAsync,
   deleteTrackerAsync,
-  subscribeToTrackers,
+  subscribeToTrackerSummaries,
+  getHistoryStatsAsync,
+  pruneExpiredLocationsAsync,
+  getDefaultRetentionAsync,
+  setDefaultRetentionAsync,
 } from '@/lib/storage';
+import { LocationRange, DEFAULT_HISTORY_LIMIT, rangeForLast } from '@/lib/location-range';
+import { findSequenceGaps } from '@/lib/location-sequence';
+import { TRACKER_COLORS, getTrackerColor, isValidColor } from '@/lib/tracker-color';
+import { TrackerState, getTrackerState, isArchived } from '@/lib/tracker-status';
+import { getLatestLocation, getLocationCount, getSummaryDistance } from '@/lib/tracker-summary';
+import { filterNoise, hasDefaultThresholds } from '@/lib/noise-filter';
+import { TimelineEntry, collapseStays, detectStayPoints, formatDuration } from '@/lib/stay-points';
+import { Trip, findTrip, splitTrips, tripRange, tripStats } from '@/lib/trips';
+import { useNoiseFilter } from '@/lib/noise-filter-context';
+import { bearing, compassDirection, distanceBetween, pathDistance, speedBetween } from '@/lib/geo';
+import { UNIT_SYSTEMS, UnitSystem } from '@/lib/units';
+import { useUnits } from '@/lib/units-context';
+import {
+  RetentionPolicy,
+  RETENTION_POLICIES,
+  DEFAULT_RETENTION,
+  RETENTION_JOB_INTERVAL_MS,
+  getRetentionPolicy,
+  isRetentionPolicy,
+  nextPruneDue,
+  retentionLabel,
+} from '@/lib/retention';
+import { runBulkAction, summarizeBulkResult } from '@/lib/bulk-actions';
+import { csvEscape } from '@/lib/formats/csv';
+import { serializeGPX } from '@/lib/formats/gpx';
+import { serializeKML } from '@/lib/formats/kml';
+import { serializeGeoJSON, trackersToGeoJSON } from '@/lib/formats/geojson';
+import {
+  StorageError,
+  StorageRecoveryAction,
+  toStorageError,
+  isAccessError,
+  getStorageErrorRecovery,
+  getStorageErrorMessage,
+} from '@/lib/storage-errors';
 import { useToast } from '@/components/Toast';
-import { useGeofence } from '@/lib/geofence-context';
+import Address from '@/components/Address';
+import { Geofence, useGeofence } from '@/lib/geofence-context';
+import ImportPanel from './import-panel';
+import BackupPanel from './backup-panel';
+import FleetPanel, { FleetFilter } from './fleet-panel';
 import styles from './page.module.css';
 
-function haversineDistance(
-  lat1: number, lon1: number,
-  lat2: number, lon2: number,
-): number {
-  const R = 6371e3;
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+// Timeline filter windows, also used to limit how much history is streamed
+const TIMELINE_RANGES: Record<string, number> = {
+  '1h': 3600000,
+  '6h': 21600000,
+  '24h': 86400000,
+  '7d': 604800000,
+};
+
+function timelineRange(filter: string): LocationRange {
+  const duration = TIMELINE_RANGES[filter];
+  return duration ? rangeForLast(duration) : {};
 }
 
-function formatDistance(meters: number): string {
-  if (meters < 1000) return `${meters.toFixed(0)}m`;
-  return `${(meters / 1000).toFixed(2)}km`;
+// The list only needs summaries; this keeps polling reads to one fix per tracker
+const LIST_RANGE: LocationRange = { limit: 1 };
+
+// Split a comma-separated tag list, dropping blanks and duplicates
+function parseTags(input: string): string[] {
+  const tags = input.split(',').map((tag) => tag.trim()).filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, 20);
 }
 
-function totalDistance(locations: LocationData[]): string {
-  let total = 0;
-  for (let i = 1; i < locations.length; i++) {
-    total += haversineDistance(
-      locations[i - 1].latitude, locations[i - 1].longitude,
-      locations[i].latitude, locations[i].longitude,
-    );
-  }
-  return formatDistance(total);
+const STATE_LABELS: Record<Exclude<TrackerState, 'active'>, string> = {
+  paused: '⏸ Paused',
+  archived: '🗄 Archived',
+  expired: '⌛ Expired',
+};
+
+// Printable report over a time range (the report defaults to the last 24h)
+function reportUrl(trackerId: string, range: LocationRange): string {
+  const params = new URLSearchParams({ id: trackerId });
+  if (range.from) params.set('from', range.from);
+  if (range.to) params.set('to', range.to);
+  return `/dashboard/report?${params.toString()}`;
 }
 
-function sanitizeFilename(name: string): string {
-  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+// Convert an ISO timestamp to the value format of a datetime-local input
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
 }
 
-function csvEscape(value: string | number): string {
-  const str = String(value);
-  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-    return `"${str.replace(/"/g, '""')}"`;
-  }
-  return str;
+function sanitizeFilename(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
 }
 
-function exportAsJSON(tracker: Tracker) {
-  const data = JSON.stringify(tracker, null, 2);
-  const blob = new Blob([data], { type: 'application/json' });
+function downloadFile(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `${sanitizeFilename(tracker.name)}_${tracker.id}.json`;
+  a.download = filename;
   a.click();
   setTimeout(() => URL.revokeObjectURL(url), 100);
 }
 
-function exportAsCSV(tracker: Tracker) {
-  const headers = ['Timestamp', 'Latitude', 'Longitude', 'Accuracy (m)', 'Browser', 'OS', 'Platform', 'Screen', 'IP Address'];
-  const rows = tracker.locations.map((loc) => [
+function exportAsJSON(tracker: Tracker) {
+  const data = JSON.stringify(tracker, null, 2);
+  downloadFile(data, 'application/json', `${sanitizeFilename(tracker.name)}_${tracker.id}.json`);
+}
+
+const CSV_HEADERS = ['Timestamp', 'Latitude', 'Longitude', 'Accuracy (m)', 'Browser', 'OS', 'Platform', 'Screen', 'IP Address'];
+
+function csvRows(tracker: Tracker): (string | number)[][] {
+  return tracker.locations.map((loc) => [
     csvEscape(loc.timestamp),
     loc.latitude,
     loc.longitude,
@@ -83,20 +141,82 @@ function exportAsCSV(tracker: Tracker) {
     csvEscape(loc.deviceInfo?.screen || ''),
     csvEscape(loc.ip || ''),
   ]);
+}
+
+function exportAsCSV(tracker: Tracker) {
+  const csv = [CSV_HEADERS.join(','), ...csvRows(tracker).map((r) => r.join(','))].join('\n');
+  downloadFile(csv, 'text/csv', `${sanitizeFilename(tracker.name)}_${tracker.id}.csv`);
+}
+
+function exportAsGPX(tracker: Tracker) {
+  downloadFile(serializeGPX([tracker]), 'application/gpx+xml', `${sanitizeFilename(tracker.name)}_${tracker.id}.gpx`);
+}
+
+function exportTripAsGPX(tracker: Tracker, trip: Trip, locations: LocationData[]) {
+  downloadFile(
+    serializeGPX([{ ...tracker, locations }]),
+    'application/gpx+xml',
+    `${sanitizeFilename(tracker.name)}_${tracker.id}_trip_${trip.start.replace(/[^0-9]/g, '').slice(0, 14)}.gpx`
+  );
+}
+
+function exportAsKML(tracker: Tracker, geofences: Geofence[]) {
+  downloadFile(
+    serializeKML([tracker], geofences),
+    'application/vnd.google-earth.kml+xml',
+    `${sanitizeFilename(tracker.name)}_${tracker.id}.kml`
+  );
+}
+
+function exportAsGeoJSON(tracker: Tracker, geofences: Geofence[]) {
+  downloadFile(
+    serializeGeoJSON(trackersToGeoJSON([tracker], { geofences })),
+    'application/geo+json',
+    `${sanitizeFilename(tracker.name)}_${tracker.id}.geojson`
+  );
+}
+
+// Combined exports for a multi-tracker selection
+function exportManyAsJSON(trackers: Tracker[]) {
+  const data = JSON.stringify({ exportedAt: new Date().toISOString(), trackers }, null, 2);
+  downloadFile(data, 'application/json', `trackers_${trackers.length}_${Date.now()}.json`);
+}
+
+function exportManyAsCSV(trackers: Tracker[]) {
+  const headers = ['Tracker ID', 'Tracker Name', ...CSV_HEADERS];
+  const rows = trackers.flatMap((tracker) =>
+    csvRows(tracker).map((row) => [csvEscape(tracker.id), csvEscape(tracker.name), ...row])
+  );
   const csv = [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
-  const blob = new Blob([csv], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = `${sanitizeFilename(tracker.name)}_${tracker.id}.csv`;
-  a.click();
-  setTimeout(() => URL.revokeObjectURL(url), 100);
+  downloadFile(csv, 'text/csv', `trackers_${trackers.length}_${Date.now()}.csv`);
+}
+
+function exportManyAsGPX(trackers: Tracker[]) {
+  downloadFile(serializeGPX(trackers), 'application/gpx+xml', `trackers_${trackers.length}_${Date.now()}.gpx`);
+}
+
+function exportManyAsGeoJSON(trackers: Tracker[], geofences: Geofence[]) {
+  downloadFile(
+    serializeGeoJSON(trackersToGeoJSON(trackers, { geofences })),
+    'application/geo+json',
+    `trackers_${trackers.length}_${Date.now()}.geojson`
+  );
+}
+
+function exportManyAsKML(trackers: Tracker[], geofences: Geofence[]) {
+  downloadFile(
+    serializeKML(trackers, geofences),
+    'application/vnd.google-earth.kml+xml',
+    `trackers_${trackers.length}_${Date.now()}.kml`
+  );
 }
 
 export default function Dashboard() {
   const router = useRouter();
   const { user, loading: authLoading, logout } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { units, setUnits, formatDistance, formatSpeed } = useUnits();
+  const { noiseFilter, updateNoiseFilter } = useNoiseFilter();
   const { showToast } = useToast();
   const { geofences, alerts, addGeofence, removeGeofence, clearAlerts, dismissAlert, checkLocation } = useGeofence();
   const [trackers, setTrackers] = useState<Tracker[]>([]);
@@ -105,26 +225,67 @@ export default function Dashboard() {
   const [expandedTracker, setExpandedTracker] = useState<string | null>(null);
   const [baseUrl, setBaseUrl] = useState('');
   const [loading, setLoading] = useState(true);
-  const [permissionError, setPermissionError] = useState(false);
+  const [loadError, setLoadError] = useState<StorageError | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [geofenceForm, setGeofenceForm] = useState<{ trackerId: string; radius: string; name: string } | null>(null);
+  const [editForm, setEditForm] = useState<{
+    trackerId: string;
+    name: string;
+    description: string;
+    tags: string;
+    color: string;
+    expiresAt: string;
+    // Empty string means "use the account default"
+    retention: string;
+  } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const [showAlerts, setShowAlerts] = useState(false);
   const [timelineFilter, setTimelineFilter] = useState<string>('all');
+  // Fold runs of fixes recorded while stopped into a single timeline entry
+  const [collapseStops, setCollapseStops] = useState(true);
+  // Start timestamp of the trip the timeline is narrowed to
+  const [selectedTrip, setSelectedTrip] = useState<string | null>(null);
+  // History for the expanded tracker, loaded on demand; the list itself only holds summaries
+  const [loadedHistory, setLoadedHistory] = useState<Record<string, LocationData[]>>({});
+  // Older history paged in with "Load older", keyed by tracker ID
+  const [olderLocations, setOlderLocations] = useState<Record<string, LocationData[]>>({});
+  const [historyExhausted, setHistoryExhausted] = useState<Record<string, boolean>>({});
+  const [loadingOlder, setLoadingOlder] = useState<string | null>(null);
+  const [retentionDefault, setRetentionDefault] = useState<RetentionPolicy>(DEFAULT_RETENTION);
+  // Total stored history per tracker, fetched when a tracker is expanded
+  const [historyStats, setHistoryStats] = useState<Record<string, HistoryStats>>({});
+  const [lastPruneAt, setLastPruneAt] = useState<string | null>(null);
+  const trackersRef = useRef<Tracker[]>([]);
+  const retentionSelectRef = useRef<HTMLSelectElement>(null);
+  // Set by clicking a fleet overview figure; narrows the list to its trackers
+  const [fleetFilter, setFleetFilter] = useState<FleetFilter | null>(null);
+  const trackersListRef = useRef<HTMLDivElement>(null);
+  // Multi-select for bulk operations
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTags, setBulkTags] = useState('');
+  // Progress of the running bulk action, shown inline in the bulk bar
+  const [bulkProgress, setBulkProgress] = useState<{ verb: string; done: number; total: number } | null>(null);
+  const bulkRunning = bulkProgress !== null;
 
   const loadTrackers = useCallback(async () => {
-    if (permissionError) return;
+    if (loadError) return;
     try {
-      const storedTrackers = await getTrackersAsync();
+      const storedTrackers = await getTrackersAsync(LIST_RANGE);
       setTrackers(storedTrackers);
     } catch (error) {
       console.error('Error loading trackers:', error);
-      if (error instanceof Error && error.message.includes('insufficient permissions')) {
-        setPermissionError(true);
-      }
+      setLoadError(toStorageError(error));
     } finally {
       setLoading(false);
     }
-  }, [permissionError]);
+  }, [loadError]);
+
+  // Loaded history belongs to the previous window once the filter changes
+  useEffect(() => {
+    setLoadedHistory({});
+    setOlderLocations({});
+    setHistoryExhausted({});
+  }, [timelineFilter]);
 
   useEffect(() => {
     // Check if user is authenticated
@@ -140,24 +301,24 @@ export default function Dashboard() {
       loadTrackers();
       
       // Subscribe to real-time updates if no permission error
-      if (!permissionError) {
+      if (!loadError) {
         let fallbackInterval: NodeJS.Timeout | null = null;
-        const unsubscribe = subscribeToTrackers(
+        const unsubscribe = subscribeToTrackerSummaries(
           (updatedTrackers) => {
             setTrackers(updatedTrackers);
             setLoading(false);
             // Check geofences for all trackers with locations
             updatedTrackers.forEach((tracker) => {
-              if (tracker.locations.length > 0) {
-                const latest = tracker.locations[tracker.locations.length - 1];
+              const latest = getLatestLocation(tracker);
+              if (latest) {
                 checkLocation(tracker.id, latest.latitude, latest.longitude);
               }
             });
           },
           (error) => {
             console.error('Real-time subscription error:', error);
-            if (error.message.includes('insufficient permissions')) {
-              setPermissionError(true);
+            if (isAccessError(error)) {
+              setLoadError(toStorageError(error));
             }
             // Fallback to polling if real-time fails
             fallbackInterval = setInterval(loadTrackers, 10000);
@@ -169,7 +330,77 @@ export default function Dashboard() {
         };
       }
     }
-  }, [router, loadTrackers, user, authLoading, permissionError]);
+  }, [router, loadTrackers, user, authLoading, loadError]);
+
+  // Load the expanded tracker's history, again whenever a new fix arrives
+  const expandedLastFix = trackers.find((t) => t.id === expandedTracker)?.summary?.lastTimestamp;
+  useEffect(() => {
+    if (!expandedTracker) return;
+    let cancelled = false;
+    getLocationsAsync(expandedTracker, timelineRange(timelineFilter))
+      .then((locations) => {
+        if (!cancelled) setLoadedHistory((prev) => ({ ...prev, [expandedTracker]: locations }));
+      })
+      .catch((error) => console.error('Error loading location history:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [expandedTracker, expandedLastFix, timelineFilter]);
+
+  // Fetch the whole timeline range for trackers being exported, past the per-request limit
+  const withHistory = async (tracker: Tracker): Promise<Tracker> => ({
+    ...tracker,
+    locations: await getFullHistoryAsync(tracker.id, timelineRange(timelineFilter)),
+  });
+
+  useEffect(() => {
+    trackersRef.current = trackers;
+    // Drop selections for trackers that no longer exist
+    setSelectedIds((prev) => {
+      const ids = new Set(trackers.map((t) => t.id));
+      const next = new Set(Array.from(prev).filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [trackers]);
+
+  useEffect(() => {
+    if (user) getDefaultRetentionAsync().then(setRetentionDefault);
+  }, [user]);
+
+  // Retention prune job: runs on load and then hourly while the dashboard is open
+  const hasTrackers = trackers.length > 0;
+  useEffect(() => {
+    if (!user || !hasTrackers || loadError) return;
+    const runPrune = async () => {
+      const removed = await pruneExpiredLocationsAsync(trackersRef.current, retentionDefault);
+      setLastPruneAt(new Date().toISOString());
+      if (removed > 0) {
+        setHistoryStats({});
+        showToast(`Retention: removed ${removed} expired location points`, 'info');
+      }
+    };
+    runPrune();
+    const interval = setInterval(runPrune, RETENTION_JOB_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user, hasTrackers, loadError, retentionDefault, showToast]);
+
+  useEffect(() => {
+    if (!expandedTracker || historyStats[expandedTracker]) return;
+    getHistoryStatsAsync(expandedTracker)
+      .then((stats) => setHistoryStats((prev) => ({ ...prev, [expandedTracker]: stats })))
+      .catch((error) => console.error('Error loading history stats:', error));
+  }, [expandedTracker, historyStats]);
+
+  const handleRetentionDefaultChange = async (policy: RetentionPolicy) => {
+    setRetentionDefault(policy);
+    try {
+      await setDefaultRetentionAsync(policy);
+      showToast(`Default retention set to ${retentionLabel(policy)}`, 'success');
+    } catch (error) {
+      console.error('Error saving retention default:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
 
   const handleCreateTracker = async () => {
     if (!trackerName.trim()) {
@@ -177,7 +408,14 @@ export default function Dashboard() {
       return;
     }
 
-    const tracker = await createTrackerAsync(trackerName);
+    let tracker: Tracker | null;
+    try {
+      tracker = await createTrackerAsync(trackerName);
+    } catch (error) {
+      console.error('Error creating tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+      return;
+    }
     if (tracker) {
       const url = `${baseUrl}/track?id=${tracker.id}`;
       setGeneratedUrl(url);
@@ -201,21 +439,173 @@ export default function Dashboard() {
       return;
     }
 
-    await deleteTrackerAsync(trackerId);
-    loadTrackers();
-    showToast('Tracker deleted successfully', 'success');
+    try {
+      await deleteTrackerAsync(trackerId);
+      loadTrackers();
+      showToast('Tracker deleted successfully', 'success');
+    } catch (error) {
+      console.error('Error deleting tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
   };
 
-  const handleExportJSON = (tracker: Tracker, e: React.MouseEvent) => {
+  const handleEditTracker = (tracker: Tracker, e: React.MouseEvent) => {
     e.stopPropagation();
-    exportAsJSON(tracker);
-    showToast(`Exported ${tracker.name} as JSON`, 'success');
+    setEditForm({
+      trackerId: tracker.id,
+      name: tracker.name,
+      description: tracker.description || '',
+      tags: (tracker.tags || []).join(', '),
+      color: getTrackerColor(tracker),
+      expiresAt: tracker.expiresAt ? toDateTimeLocal(tracker.expiresAt) : '',
+      retention: tracker.retention || '',
+    });
   };
 
-  const handleExportCSV = (tracker: Tracker, e: React.MouseEvent) => {
+  const handleSaveTracker = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editForm) return;
+
+    if (!editForm.name.trim()) {
+      showToast('Please enter a tracker designation', 'error');
+      return;
+    }
+    if (!isValidColor(editForm.color)) {
+      showToast('Color must be a hex value like #00ff88', 'error');
+      return;
+    }
+
+    // A retention change re-stamps the whole history, so only send it when it changed
+    const retention = isRetentionPolicy(editForm.retention) ? editForm.retention : null;
+    const stored = trackers.find((t) => t.id === editForm.trackerId);
+    const retentionChanged = retention !== (stored?.retention ?? null);
+
+    try {
+      const saved = await updateTrackerAsync(editForm.trackerId, {
+        name: editForm.name.trim().slice(0, 100),
+        description: editForm.description.trim().slice(0, 500),
+        tags: parseTags(editForm.tags),
+        color: editForm.color,
+        expiresAt: editForm.expiresAt ? new Date(editForm.expiresAt).toISOString() : null,
+        ...(retentionChanged ? { retention } : {}),
+      });
+      if (saved) {
+        setEditForm(null);
+        loadTrackers();
+        showToast('Tracker updated', 'success');
+      } else {
+        showToast('Failed to update tracker. Please try again.', 'error');
+      }
+    } catch (error) {
+      console.error('Error updating tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  const handleSetStatus = async (tracker: Tracker, status: TrackerStatus, e: React.MouseEvent) => {
     e.stopPropagation();
-    exportAsCSV(tracker);
-    showToast(`Exported ${tracker.name} as CSV`, 'success');
+    const messages: Record<TrackerStatus, string> = {
+      active: 'Tracker resumed',
+      paused: 'Tracker paused; the link will stop recording',
+      archived: 'Tracker archived',
+    };
+
+    try {
+      const saved = await updateTrackerAsync(tracker.id, { status });
+      if (saved) {
+        loadTrackers();
+        showToast(messages[status], 'success');
+      } else {
+        showToast('Failed to update tracker. Please try again.', 'error');
+      }
+    } catch (error) {
+      console.error('Error updating tracker status:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExportJSON = async (tracker: Tracker, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      exportAsJSON(await withHistory(tracker));
+      showToast(`Exported ${tracker.name} as JSON`, 'success');
+    } catch (error) {
+      console.error('Error exporting tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExportCSV = async (tracker: Tracker, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      exportAsCSV(await withHistory(tracker));
+      showToast(`Exported ${tracker.name} as CSV`, 'success');
+    } catch (error) {
+      console.error('Error exporting tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExportGPX = async (tracker: Tracker, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      exportAsGPX(await withHistory(tracker));
+      showToast(`Exported ${tracker.name} as GPX`, 'success');
+    } catch (error) {
+      console.error('Error exporting tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExportKML = async (tracker: Tracker, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      exportAsKML(await withHistory(tracker), geofences);
+      showToast(`Exported ${tracker.name} as KML`, 'success');
+    } catch (error) {
+      console.error('Error exporting tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  const handleExportGeoJSON = async (tracker: Tracker, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      exportAsGeoJSON(await withHistory(tracker), geofences);
+      showToast(`Exported ${tracker.name} as GeoJSON`, 'success');
+    } catch (error) {
+      console.error('Error exporting tracker:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  // The timeline may hold only part of a long trip, so reload its whole span
+  const handleExportTrip = async (tracker: Tracker, trip: Trip) => {
+    try {
+      exportTripAsGPX(tracker, trip, await getFullHistoryAsync(tracker.id, tripRange(trip)));
+      showToast(`Exported trip of ${tracker.name} as GPX`, 'success');
+    } catch (error) {
+      console.error('Error exporting trip:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    }
+  };
+
+  // Carry out the recovery action suggested for a storage error
+  const handleRecovery = async (action: StorageRecoveryAction) => {
+    switch (action) {
+      case 'sign-in':
+        await handleLogout();
+        return;
+      case 'review-retention':
+        setLoadError(null);
+        retentionSelectRef.current?.focus();
+        return;
+      case 'retry':
+      case 'refresh':
+        setLoadError(null);
+        loadTrackers();
+        return;
+    }
   };
 
   const handleLogout = async () => {
@@ -230,7 +620,7 @@ export default function Dashboard() {
   const handleAddGeofence = (trackerId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     const tracker = trackers.find((t) => t.id === trackerId);
-    if (!tracker || tracker.locations.length === 0) {
+    if (!tracker || !getLatestLocation(tracker)) {
       showToast('Tracker needs at least one location to set a geofence', 'error');
       return;
     }
@@ -242,9 +632,9 @@ export default function Dashboard() {
     if (!geofenceForm) return;
 
     const tracker = trackers.find((t) => t.id === geofenceForm.trackerId);
-    if (!tracker || tracker.locations.length === 0) return;
+    const latest = tracker ? getLatestLocation(tracker) : null;
+    if (!latest) return;
 
-    const latest = tracker.locations[tracker.locations.length - 1];
     const radius = parseInt(geofenceForm.radius, 10);
     if (isNaN(radius) || radius < 50 || radius > 100000) {
       showToast('Radius must be between 50 and 100,000 meters', 'error');
@@ -287,25 +677,149 @@ export default function Dashboard() {
     window.open(`https://www.google.com/maps?q=${lat},${lng}&z=15`, '_blank');
   };
 
+  // Full history for a tracker: paged-in older fixes followed by the loaded window
+  const historyFor = (tracker: Tracker): LocationData[] => [
+    ...(olderLocations[tracker.id] || []),
+    ...(loadedHistory[tracker.id] || []),
+  ];
+
+  const handleLoadOlder = async (tracker: Tracker, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const history = historyFor(tracker);
+    if (history.length === 0) return;
+
+    setLoadingOlder(tracker.id);
+    try {
+      const page = await getLocationsAsync(tracker.id, {
+        ...timelineRange(timelineFilter),
+        to: history[0].timestamp,
+        limit: DEFAULT_HISTORY_LIMIT,
+      });
+      setOlderLocations((prev) => ({ ...prev, [tracker.id]: [...page, ...(prev[tracker.id] || [])] }));
+      if (page.length < DEFAULT_HISTORY_LIMIT) {
+        setHistoryExhausted((prev) => ({ ...prev, [tracker.id]: true }));
+      }
+    } catch (error) {
+      console.error('Error loading older locations:', error);
+      showToast('Failed to load older locations', 'error');
+    } finally {
+      setLoadingOlder(null);
+    }
+  };
+
+  const toggleSelected = (trackerId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(trackerId)) {
+        next.delete(trackerId);
+      } else {
+        next.add(trackerId);
+      }
+      return next;
+    });
+  };
+
+  // Run an action over the selection, reporting progress and then which trackers failed.
+  // Failed trackers stay selected so the action can be retried.
+  const runBulk = async (verb: string, progressVerb: string, action: (tracker: Tracker) => Promise<boolean>) => {
+    setBulkProgress({ verb: progressVerb, done: 0, total: selectedTrackers.length });
+    const result = await runBulkAction(selectedTrackers, action, (done, total) => {
+      setBulkProgress({ verb: progressVerb, done, total });
+    });
+    setBulkProgress(null);
+    setSelectedIds(new Set([...result.failed.map((f) => f.item.id), ...hiddenSelectedIds]));
+    result.failed.forEach((f) => f.error && console.error(`Bulk ${progressVerb.toLowerCase()} failed for ${f.item.id}:`, f.error));
+    loadTrackers();
+    showToast(summarizeBulkResult(verb, result, (t) => t.name), result.failed.length > 0 ? 'error' : 'success');
+  };
+
+  const handleBulkDelete = async () => {
+    const count = selectedTrackers.length;
+    const hidden = hiddenSelectedIds.length > 0
+      ? ` ${hiddenSelectedIds.length} selected tracker${hiddenSelectedIds.length === 1 ? ' is' : 's are'} hidden by the current filters and will be kept.`
+      : '';
+    if (!confirm(`Terminate ${count} tracking session${count === 1 ? '' : 's'}? Their location history will be deleted.${hidden}`)) {
+      return;
+    }
+    await runBulk('Deleted', 'Deleting', (tracker) => deleteTrackerAsync(tracker.id));
+  };
+
+  const handleBulkArchive = async () => {
+    await runBulk('Archived', 'Archiving', (tracker) => updateTrackerAsync(tracker.id, { status: 'archived' }));
+  };
+
+  const handleBulkTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tags = parseTags(bulkTags);
+    if (tags.length === 0) {
+      showToast('Enter one or more tags to assign', 'error');
+      return;
+    }
+    await runBulk('Tagged', 'Tagging', (tracker) =>
+      updateTrackerAsync(tracker.id, { tags: parseTags([...(tracker.tags || []), ...tags].join(',')) })
+    );
+    setBulkTags('');
+  };
+
+  const handleBulkExport = async (format: 'json' | 'csv' | 'gpx' | 'kml' | 'geojson') => {
+    const total = selectedTrackers.length;
+    setBulkProgress({ verb: 'Exporting', done: 0, total });
+    try {
+      const exported: Tracker[] = [];
+      for (const tracker of selectedTrackers) {
+        exported.push(await withHistory(tracker));
+        setBulkProgress({ verb: 'Exporting', done: exported.length, total });
+      }
+      if (format === 'json') {
+        exportManyAsJSON(exported);
+      } else if (format === 'gpx') {
+        exportManyAsGPX(exported);
+      } else if (format === 'kml') {
+        exportManyAsKML(exported, geofences);
+      } else if (format === 'geojson') {
+        exportManyAsGeoJSON(exported, geofences);
+      } else {
+        exportManyAsCSV(exported);
+      }
+      showToast(`Exported ${exported.length} trackers as ${format === 'geojson' ? 'GeoJSON' : format.toUpperCase()}`, 'success');
+    } catch (error) {
+      console.error('Error exporting trackers:', error);
+      showToast(getStorageErrorMessage(error), 'error');
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
   const toggleTrackerDetails = (trackerId: string) => {
     setExpandedTracker(expandedTracker === trackerId ? null : trackerId);
+    setSelectedTrip(null);
   };
 
+  const archivedCount = trackers.filter(isArchived).length;
+
+  // Archived trackers stay out of the list unless explicitly requested
   const filteredTrackers = trackers.filter((t) =>
-    t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    t.id.toLowerCase().includes(searchQuery.toLowerCase())
+    (showArchived || !isArchived(t)) &&
+    (!fleetFilter || fleetFilter.trackerIds.includes(t.id)) && (
+      t.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      t.id.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
+  // Bulk actions only reach selected trackers the list still shows; the rest
+  // stay selected for when the filters are cleared
+  const selectedTrackers = filteredTrackers.filter((t) => selectedIds.has(t.id));
+  const hiddenSelectedIds = Array.from(selectedIds).filter((id) => !selectedTrackers.some((t) => t.id === id));
+
+  const handleFleetFilter = (filter: FleetFilter | null) => {
+    setFleetFilter(filter);
+    if (filter) trackersListRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
   const filterLocations = (locations: LocationData[]) => {
     if (timelineFilter === 'all') return locations;
     const now = Date.now();
-    const ranges: Record<string, number> = {
-      '1h': 3600000,
-      '6h': 21600000,
-      '24h': 86400000,
-      '7d': 604800000,
-    };
-    const range = ranges[timelineFilter];
+    const range = TIMELINE_RANGES[timelineFilter];
     if (!range) return locations;
     return locations.filter((loc) => now - new Date(loc.timestamp).getTime() <= range);
   };
@@ -335,6 +849,16 @@ export default function Dashboard() {
             <button onClick={toggleTheme} className="theme-toggle">
               {theme === 'dark' ? '☀️ Light' : '🌙 Dark'}
             </button>
+            <select
+              value={units}
+              onChange={(e) => setUnits(e.target.value as UnitSystem)}
+              className={styles.unitSelect}
+              title="Units for distances and speeds"
+            >
+              {UNIT_SYSTEMS.map((u) => (
+                <option key={u.value} value={u.value}>{u.label}</option>
+              ))}
+            </select>
             <Link href="/dashboard/map-view" className={styles.navLink}>
               🗺️ Map View
             </Link>
@@ -388,6 +912,12 @@ export default function Dashboard() {
         </div>
       )}
 
+      <FleetPanel
+        trackers={trackers.filter((t) => !isArchived(t))}
+        activeFilter={fleetFilter}
+        onFilter={handleFleetFilter}
+      />
+
       <div className={styles.createTracker}>
         <h2>Initialize New Tracker</h2>
         <div className={styles.formGroup}>
@@ -415,11 +945,44 @@ export default function Dashboard() {
             </button>
           </div>
         )}
+
+        <ImportPanel trackers={trackers} onImported={loadTrackers} />
+        <BackupPanel trackers={trackers} onRestored={loadTrackers} />
       </div>
 
-      <div className={styles.trackersList}>
+      <div className={styles.trackersList} ref={trackersListRef}>
         <div className={styles.trackersListHeader}>
-          <h2>Active Sessions ({trackers.length})</h2>
+          <h2>Active Sessions ({trackers.length - archivedCount})</h2>
+          {fleetFilter && (
+            <button
+              className={`${styles.timelineFilterBtn} ${styles.timelineFilterActive}`}
+              onClick={() => setFleetFilter(null)}
+              title="Show all trackers again"
+            >
+              {fleetFilter.label} ({fleetFilter.trackerIds.length}) ✕
+            </button>
+          )}
+          {archivedCount > 0 && (
+            <button
+              className={`${styles.timelineFilterBtn} ${showArchived ? styles.timelineFilterActive : ''}`}
+              onClick={() => setShowArchived(!showArchived)}
+            >
+              🗄 {showArchived ? 'Hide' : 'Show'} archived ({archivedCount})
+            </button>
+          )}
+          <label className={styles.retentionDefault} title="Applies to trackers without their own retention policy">
+            Keep history for
+            <select
+              ref={retentionSelectRef}
+              value={retentionDefault}
+              onChange={(e) => handleRetentionDefaultChange(e.target.value as RetentionPolicy)}
+              className={styles.retentionSelect}
+            >
+              {RETENTION_POLICIES.map((p) => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </select>
+          </label>
           {trackers.length > 0 && (
             <div className={styles.searchBox}>
               <input
@@ -432,46 +995,158 @@ export default function Dashboard() {
             </div>
           )}
         </div>
-        {permissionError ? (
-          <div className={styles.emptyState}>
-            <div className={styles.emptyStateIcon}>⚠️</div>
-            <p>Unable to access tracker data due to insufficient permissions.</p>
-            <p style={{ marginTop: '10px', color: '#666', fontSize: '14px' }}>
-              Please ensure Firestore security rules are properly configured.
-              See FIREBASE_SETUP.md for setup instructions.
-            </p>
-            <button className="btn" onClick={() => { setPermissionError(false); loadTrackers(); }} style={{ marginTop: '15px' }}>
-              🔄 Retry
-            </button>
-          </div>
-        ) : filteredTrackers.length === 0 ? (
+        {filteredTrackers.length > 0 && !loadError && (() => {
+          const allSelected = filteredTrackers.every((t) => selectedIds.has(t.id));
+          return (
+            <div className={styles.bulkBar}>
+              <label className={styles.bulkSelectAll}>
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? new Set() : new Set(filteredTrackers.map((t) => t.id)))}
+                />
+                {selectedTrackers.length > 0 ? `${selectedTrackers.length} selected` : 'Select all'}
+                {hiddenSelectedIds.length > 0 && (
+                  <span className={styles.bulkHidden}>(+{hiddenSelectedIds.length} hidden by filters)</span>
+                )}
+              </label>
+              {bulkProgress && (
+                <div className={styles.bulkProgress} role="status">
+                  <progress value={bulkProgress.done} max={bulkProgress.total} />
+                  <span>{bulkProgress.verb} {bulkProgress.done}/{bulkProgress.total}...</span>
+                </div>
+              )}
+              {selectedTrackers.length > 0 && (
+                <>
+                  <button className={styles.exportBtn} onClick={() => handleBulkExport('json')} disabled={bulkRunning}>
+                    {'{ }'} Export
+                  </button>
+                  <button className={styles.exportBtn} onClick={() => handleBulkExport('csv')} disabled={bulkRunning}>
+                    CSV Export
+                  </button>
+                  <button className={styles.exportBtn} onClick={() => handleBulkExport('gpx')} disabled={bulkRunning}>
+                    GPX Export
+                  </button>
+                  <button className={styles.exportBtn} onClick={() => handleBulkExport('kml')} disabled={bulkRunning}>
+                    KML Export
+                  </button>
+                  <button className={styles.exportBtn} onClick={() => handleBulkExport('geojson')} disabled={bulkRunning}>
+                    GeoJSON Export
+                  </button>
+                  <button className={styles.exportBtn} onClick={handleBulkArchive} disabled={bulkRunning}>
+                    🗄 Archive
+                  </button>
+                  <form className={styles.bulkTagForm} onSubmit={handleBulkTag}>
+                    <input
+                      type="text"
+                      placeholder="Add tags, comma separated"
+                      value={bulkTags}
+                      onChange={(e) => setBulkTags(e.target.value)}
+                      className={styles.searchInput}
+                    />
+                    <button type="submit" className={styles.exportBtn} disabled={bulkRunning}>
+                      # Tag
+                    </button>
+                  </form>
+                  <button className={styles.deleteBtn} onClick={handleBulkDelete} disabled={bulkRunning}>
+                    ✕ Delete
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })()}
+        {loadError ? (() => {
+          const recovery = getStorageErrorRecovery(loadError);
+          return (
+            <div className={styles.emptyState}>
+              <div className={styles.emptyStateIcon}>⚠️</div>
+              <p>Unable to load tracker data.</p>
+              <p style={{ marginTop: '10px', color: '#666', fontSize: '14px' }}>
+                {recovery.message}
+              </p>
+              {recovery.actionLabel && (
+                <button className="btn" onClick={() => handleRecovery(recovery.action)} style={{ marginTop: '15px' }}>
+                  {recovery.actionLabel}
+                </button>
+              )}
+            </div>
+          );
+        })() : filteredTrackers.length === 0 ? (
           <div className={styles.emptyState}>
             <div className={styles.emptyStateIcon}>📡</div>
             <p>{searchQuery ? 'No trackers match your search.' : 'No active tracking sessions. Initialize your first tracker above.'}</p>
           </div>
         ) : (
-          filteredTrackers.map((tracker) => (
+          filteredTrackers.map((tracker) => {
+            const trackerState = getTrackerState(tracker);
+            const latest = getLatestLocation(tracker);
+            return (
             <div
               key={tracker.id}
-              className={styles.trackerCard}
+              className={`${styles.trackerCard} ${selectedIds.has(tracker.id) ? styles.trackerCardSelected : ''}`}
               onClick={() => toggleTrackerDetails(tracker.id)}
             >
               <div className={styles.trackerHeader}>
                 <div>
                   <div className={styles.trackerName}>
+                    <input
+                      type="checkbox"
+                      className={styles.selectBox}
+                      checked={selectedIds.has(tracker.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => toggleSelected(tracker.id)}
+                      aria-label={`Select ${tracker.name}`}
+                    />
+                    <span
+                      className={styles.colorDot}
+                      style={{ background: getTrackerColor(tracker) }}
+                    />
                     {tracker.name}
                   </div>
                   <div className={styles.trackerId}>ID: {tracker.id}</div>
+                  {tracker.description && (
+                    <div className={styles.trackerDescription}>{tracker.description}</div>
+                  )}
+                  {tracker.tags && tracker.tags.length > 0 && (
+                    <div className={styles.tagList}>
+                      {tracker.tags.map((tag) => (
+                        <span key={tag} className={styles.tagChip}>#{tag}</span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className={styles.trackerActions}>
-                  <span className={styles.locationsCount}>
-                    {tracker.locations.length} coordinates
-                  </span>
-                  {tracker.locations.length > 1 && (
-                    <span className={styles.distanceBadge}>
-                      📏 {totalDistance(tracker.locations)}
+                  {trackerState !== 'active' && (
+                    <span className={`${styles.stateBadge} ${styles[`state_${trackerState}`]}`}>
+                      {STATE_LABELS[trackerState]}
                     </span>
                   )}
+                  <span className={styles.locationsCount}>
+                    {getLocationCount(tracker)} coordinates
+                  </span>
+                  {getLocationCount(tracker) > 1 && (() => {
+                    // The stored summary cannot follow this browser's thresholds
+                    const defaultFilter = Boolean(tracker.summary) && noiseFilter.enabled && !hasDefaultThresholds(noiseFilter);
+                    return (
+                      <span
+                        className={styles.distanceBadge}
+                        title={defaultFilter ? 'Filtered with the default noise thresholds; open the tracker for your settings' : undefined}
+                      >
+                        📏 {formatDistance(tracker.summary
+                          ? getSummaryDistance(tracker.summary, !noiseFilter.enabled)
+                          : pathDistance(filterNoise(tracker.locations, noiseFilter)))}
+                        {defaultFilter && ' (default filter)'}
+                      </span>
+                    );
+                  })()}
+                  <button
+                    className={styles.exportBtn}
+                    onClick={(e) => handleEditTracker(tracker, e)}
+                    title="Edit tracker details"
+                  >
+                    ✎ Edit
+                  </button>
                   <button
                     className={styles.exportBtn}
                     onClick={(e) => handleExportJSON(tracker, e)}
@@ -486,6 +1161,43 @@ export default function Dashboard() {
                   >
                     CSV
                   </button>
+                  <button
+                    className={styles.exportBtn}
+                    onClick={(e) => handleExportGPX(tracker, e)}
+                    title="Export as GPX"
+                  >
+                    GPX
+                  </button>
+                  <button
+                    className={styles.exportBtn}
+                    onClick={(e) => handleExportKML(tracker, e)}
+                    title="Export as KML for Google Earth"
+                  >
+                    KML
+                  </button>
+                  <button
+                    className={styles.exportBtn}
+                    onClick={(e) => handleExportGeoJSON(tracker, e)}
+                    title="Export as GeoJSON"
+                  >
+                    GeoJSON
+                  </button>
+                  <Link
+                    href={reportUrl(tracker.id, timelineRange(timelineFilter))}
+                    className={`${styles.exportBtn} ${styles.exportLink}`}
+                    onClick={(e) => e.stopPropagation()}
+                    title="Printable report for the selected time range"
+                  >
+                    📄 Report
+                  </Link>
+                  <Link
+                    href={`/dashboard/analytics?id=${encodeURIComponent(tracker.id)}`}
+                    className={`${styles.exportBtn} ${styles.exportLink}`}
+                    onClick={(e) => e.stopPropagation()}
+                    title="Charts of distance, activity, speed, cadence and accuracy"
+                  >
+                    📊 Analytics
+                  </Link>
                   <button
                     className={styles.exportBtn}
                     onClick={(e) => handleAddGeofence(tracker.id, e)}
@@ -493,6 +1205,32 @@ export default function Dashboard() {
                   >
                     ⊕ Fence
                   </button>
+                  {trackerState !== 'archived' && (
+                    tracker.status === 'paused' ? (
+                      <button
+                        className={styles.exportBtn}
+                        onClick={(e) => handleSetStatus(tracker, 'active', e)}
+                        title="Resume recording"
+                      >
+                        ▶ Resume
+                      </button>
+                    ) : (
+                      <button
+                        className={styles.exportBtn}
+                        onClick={(e) => handleSetStatus(tracker, 'paused', e)}
+                        title="Pause recording"
+                      >
+                        ⏸ Pause
+                      </button>
+                    )
+                  )}
+                  <button
+                    className={styles.exportBtn}
+                    onClick={(e) => handleSetStatus(tracker, isArchived(tracker) ? 'active' : 'archived', e)}
+                    title={isArchived(tracker) ? 'Restore from archive' : 'Archive tracker'}
+                  >
+                    {isArchived(tracker) ? '↩ Restore' : '🗄 Archive'}
+                  </button>
                   <button
                     className={styles.deleteBtn}
                     onClick={(e) => handleDeleteTracker(tracker.id, e)}
@@ -507,25 +1245,25 @@ export default function Dashboard() {
                 </div>
                 <div className={styles.infoItem}>
                   <strong>Last Signal:</strong>{' '}
-                  {tracker.locations.length > 0
-                    ? new Date(
-                        tracker.locations[tracker.locations.length - 1].timestamp
-                      ).toLocaleString()
-                    : 'Awaiting...'}
+                  {latest ? new Date(latest.timestamp).toLocaleString() : 'Awaiting...'}
                 </div>
               </div>
 
-              {tracker.locations.length > 0 && (() => {
-                const latestLocation = tracker.locations[tracker.locations.length - 1];
+              {latest && (() => {
+                const latestLocation = latest;
                 const lastTime = new Date(latestLocation.timestamp).getTime();
                 const isRecent = Date.now() - lastTime < 60000;
                 return (
                   <div className={styles.latestLocationSummary}>
                     <div className={styles.latestLocationHeader}>
                       <span className={styles.latestLocationTitle}>📍 Latest Location</span>
-                      <span className={isRecent ? styles.statusActive : styles.statusInactive}>
-                        {isRecent ? '● Live' : '○ Idle'}
-                      </span>
+                      {trackerState === 'active' ? (
+                        <span className={isRecent ? styles.statusActive : styles.statusInactive}>
+                          {isRecent ? '● Live' : '○ Idle'}
+                        </span>
+                      ) : (
+                        <span className={styles.statusInactive}>{STATE_LABELS[trackerState]}</span>
+                      )}
                     </div>
                     <div className={styles.latestLocationGrid}>
                       <div className={styles.latestLocationItem}>
@@ -538,7 +1276,7 @@ export default function Dashboard() {
                       </div>
                       <div className={styles.latestLocationItem}>
                         <div className={styles.coordLabel}>Accuracy</div>
-                        <div className={styles.coordValue}>±{latestLocation.accuracy.toFixed(2)}m</div>
+                        <div className={styles.coordValue}>±{formatDistance(latestLocation.accuracy)}</div>
                       </div>
                       {latestLocation.deviceInfo && (
                         <div className={styles.latestLocationItem}>
@@ -561,6 +1299,11 @@ export default function Dashboard() {
                         </div>
                       )}
                     </div>
+                    <Address
+                      latitude={latestLocation.latitude}
+                      longitude={latestLocation.longitude}
+                      className={styles.address}
+                    />
                     <button
                       className="btn btn-success"
                       onClick={(e) => viewOnMap(latestLocation.latitude, latestLocation.longitude, e)}
@@ -571,6 +1314,92 @@ export default function Dashboard() {
                 );
               })()}
 
+              {/* Inline metadata editor */}
+              {editForm && editForm.trackerId === tracker.id && (
+                <div className={styles.editForm} onClick={(e) => e.stopPropagation()}>
+                  <h4 className={styles.editFormTitle}>✎ Edit Tracker</h4>
+                  <form onSubmit={handleSaveTracker}>
+                    <input
+                      type="text"
+                      placeholder="Tracker designation"
+                      value={editForm.name}
+                      onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                      className={styles.input}
+                      maxLength={100}
+                    />
+                    <textarea
+                      placeholder="Description"
+                      value={editForm.description}
+                      onChange={(e) => setEditForm({ ...editForm, description: e.target.value })}
+                      className={styles.input}
+                      maxLength={500}
+                      rows={2}
+                    />
+                    <input
+                      type="text"
+                      placeholder="Tags, comma separated (e.g. fleet, north)"
+                      value={editForm.tags}
+                      onChange={(e) => setEditForm({ ...editForm, tags: e.target.value })}
+                      className={styles.input}
+                    />
+                    <label className={styles.editFormLabel}>
+                      Link expires (leave empty to never expire)
+                      <input
+                        type="datetime-local"
+                        value={editForm.expiresAt}
+                        onChange={(e) => setEditForm({ ...editForm, expiresAt: e.target.value })}
+                        className={styles.input}
+                      />
+                    </label>
+                    <label className={styles.editFormLabel}>
+                      Keep location history for
+                      <select
+                        value={editForm.retention}
+                        onChange={(e) => setEditForm({ ...editForm, retention: e.target.value })}
+                        className={styles.input}
+                      >
+                        <option value="">Account default ({retentionLabel(retentionDefault)})</option>
+                        {RETENTION_POLICIES.map((p) => (
+                          <option key={p.value} value={p.value}>{p.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className={styles.colorPicker}>
+                      {TRACKER_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={`${styles.colorSwatch} ${editForm.color === color ? styles.colorSwatchActive : ''}`}
+                          style={{ background: color }}
+                          onClick={() => setEditForm({ ...editForm, color })}
+                          title={color}
+                        />
+                      ))}
+                      <input
+                        type="color"
+                        value={editForm.color}
+                        onChange={(e) => setEditForm({ ...editForm, color: e.target.value })}
+                        className={styles.colorInput}
+                        title="Custom color"
+                      />
+                    </div>
+                    <div className={styles.geofenceFormActions}>
+                      <button type="submit" className="btn" style={{ padding: '8px 20px', fontSize: '12px' }}>
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        style={{ padding: '8px 20px', fontSize: '12px' }}
+                        onClick={() => setEditForm(null)}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              )}
+
               {/* Geofences for this tracker */}
               {geofences.filter((g) => g.trackerId === tracker.id).length > 0 && (
                 <div className={styles.geofenceSection} onClick={(e) => e.stopPropagation()}>
@@ -579,7 +1408,7 @@ export default function Dashboard() {
                     <div key={fence.id} className={styles.geofenceItem}>
                       <span>{fence.name}</span>
                       <span className={styles.geofenceRadius}>
-                        {fence.radiusMeters >= 1000 ? `${(fence.radiusMeters / 1000).toFixed(1)}km` : `${fence.radiusMeters}m`} radius
+                        {formatDistance(fence.radiusMeters)} radius
                       </span>
                       <span className={styles.geofenceCoord}>
                         ({fence.centerLat.toFixed(4)}, {fence.centerLng.toFixed(4)})
@@ -641,121 +1470,314 @@ export default function Dashboard() {
                 </div>
               )}
 
-              {expandedTracker === tracker.id && (
-                <div className={styles.trackerDetails}>
-                  <div className={styles.locationHistoryHeader}>
-                    📋 Location History ({tracker.locations.length} entries)
-                    {tracker.locations.length > 1 && (
-                      <span className={styles.totalDistance}>
-                        Total: {totalDistance(tracker.locations)}
+              {expandedTracker === tracker.id && (() => {
+                const history = historyFor(tracker);
+                const cleanHistory = filterNoise(history, noiseFilter);
+                const trips = splitTrips(filterLocations(history));
+                const trip = findTrip(trips, selectedTrip);
+                // Unfiltered fixes in view: the selected trip, or the whole time window
+                const rawVisible = trip ? trip.locations : filterLocations(history);
+                const visibleHistory = filterNoise(rawVisible, noiseFilter);
+                // Stops are found in the unfiltered fixes: the noise filter drops most of them
+                const stays = detectStayPoints(rawVisible);
+                const timeline: TimelineEntry[] = collapseStops
+                  ? collapseStays(visibleHistory, stays)
+                  : visibleHistory.map((location, index) => ({ kind: 'fix', location, index }));
+                const gaps = findSequenceGaps(history);
+                const missingCount = gaps.reduce((sum, gap) => sum + gap.missing, 0);
+                const policy = getRetentionPolicy(tracker, retentionDefault);
+                const stats = historyStats[tracker.id];
+                const pruneDue = stats ? nextPruneDue(stats.oldest, policy) : null;
+                return (
+                  <div className={styles.trackerDetails}>
+                    <div className={styles.retentionSummary}>
+                      <span>
+                        💾 Data held:{' '}
+                        {stats
+                          ? `${stats.count} points${stats.oldest ? ` since ${new Date(stats.oldest).toLocaleString()}` : ''}`
+                          : 'Counting...'}
                       </span>
-                    )}
-                  </div>
-                  {tracker.locations.length > 0 && (
-                    <div className={styles.timelineFilters} onClick={(e) => e.stopPropagation()}>
-                      {['all', '1h', '6h', '24h', '7d'].map((f) => (
+                      <span>
+                        ⏳ Retention: {retentionLabel(policy)}{tracker.retention ? '' : ' (default)'}
+                      </span>
+                      <span>
+                        🧹 Next prune:{' '}
+                        {!stats
+                          ? '...'
+                          : !pruneDue
+                            ? 'Nothing stored'
+                            : new Date(pruneDue).getTime() <= Date.now()
+                              ? 'Due now'
+                              : new Date(pruneDue).toLocaleString()}
+                      </span>
+                      {lastPruneAt && (
+                        <span className={styles.retentionLastRun}>
+                          Last checked {new Date(lastPruneAt).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </div>
+                    <div className={styles.locationHistoryHeader}>
+                      📋 Location History ({history.length} entries loaded
+                      {noiseFilter.enabled && cleanHistory.length !== history.length && `, ${cleanHistory.length} after filtering`})
+                      {missingCount > 0 && (
+                        <span
+                          className={styles.gapBadge}
+                          title="Sequence numbers skipped by the recording device"
+                        >
+                          ⚠ {missingCount} missing
+                        </span>
+                      )}
+                      {stays.length > 0 && (
+                        <span className={styles.stayBadge}>
+                          ⏸ {stays.length} stop{stays.length === 1 ? '' : 's'} · {formatDuration(stays.reduce((sum, stay) => sum + stay.durationMs, 0))}
+                        </span>
+                      )}
+                      {history.length > 1 && (
+                        <span className={styles.totalDistance}>
+                          Total: {formatDistance(pathDistance(cleanHistory))}
+                        </span>
+                      )}
+                    </div>
+                    {history.length > 0 && (
+                      <div className={styles.timelineFilters} onClick={(e) => e.stopPropagation()}>
+                        {['all', '1h', '6h', '24h', '7d'].map((f) => (
+                          <button
+                            key={f}
+                            className={`${styles.timelineFilterBtn} ${timelineFilter === f ? styles.timelineFilterActive : ''}`}
+                            onClick={() => setTimelineFilter(f)}
+                          >
+                            {f === 'all' ? 'All' : f}
+                          </button>
+                        ))}
                         <button
-                          key={f}
-                          className={`${styles.timelineFilterBtn} ${timelineFilter === f ? styles.timelineFilterActive : ''}`}
-                          onClick={() => setTimelineFilter(f)}
+                          className={`${styles.timelineFilterBtn} ${noiseFilter.enabled ? styles.timelineFilterActive : ''}`}
+                          onClick={() => updateNoiseFilter({ enabled: !noiseFilter.enabled })}
+                          title="Hide GPS jitter: drop inaccurate fixes and tiny movements, and smooth the path"
                         >
-                          {f === 'all' ? 'All' : f}
+                          {noiseFilter.enabled ? '✨ Filtered' : '📡 Raw'}
                         </button>
-                      ))}
-                    </div>
-                  )}
-                  {tracker.locations.length > 0 ? (
-                    <div className={styles.timeline}>
-                      {filterLocations(tracker.locations).length === 0 ? (
-                        <p style={{ color: '#888', fontSize: '13px' }}>No locations in this time range.</p>
-                      ) : filterLocations(tracker.locations).map((location, index, filteredArr) => {
-                        const dist = index > 0
-                          ? haversineDistance(
-                              filteredArr[index - 1].latitude,
-                              filteredArr[index - 1].longitude,
-                              location.latitude,
-                              location.longitude,
-                            )
-                          : 0;
-                        return (
-                          <div key={index} className={styles.timelineItem}>
-                            <div className={styles.timelineDot} />
-                            {index < filteredArr.length - 1 && (
-                              <div className={styles.timelineLine} />
-                            )}
-                            <div className={styles.locationEntry}>
-                              <div className={styles.locationTime}>
-                                ⏱ {new Date(location.timestamp).toLocaleString()}
-                                {index > 0 && (
-                                  <span className={styles.segmentDistance}>
-                                    +{formatDistance(dist)}
-                                  </span>
+                        <button
+                          className={`${styles.timelineFilterBtn} ${collapseStops ? styles.timelineFilterActive : ''}`}
+                          onClick={() => setCollapseStops(!collapseStops)}
+                          title="Show each stop as one entry instead of every fix recorded during it"
+                        >
+                          ⏸ Group stops
+                        </button>
+                        {noiseFilter.enabled && (
+                          <div className={styles.noiseSettings}>
+                            <label>
+                              Max accuracy (m)
+                              <input
+                                type="number"
+                                min={0}
+                                value={noiseFilter.maxAccuracyMeters}
+                                onChange={(e) => updateNoiseFilter({ maxAccuracyMeters: Math.max(0, Number(e.target.value) || 0) })}
+                                className={styles.noiseInput}
+                              />
+                            </label>
+                            <label>
+                              Min movement (m)
+                              <input
+                                type="number"
+                                min={0}
+                                value={noiseFilter.minMovementMeters}
+                                onChange={(e) => updateNoiseFilter({ minMovementMeters: Math.max(0, Number(e.target.value) || 0) })}
+                                className={styles.noiseInput}
+                              />
+                            </label>
+                            <label>
+                              <input
+                                type="checkbox"
+                                checked={noiseFilter.smoothing}
+                                onChange={(e) => updateNoiseFilter({ smoothing: e.target.checked })}
+                              />
+                              Smooth
+                            </label>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {trips.length > 0 && (
+                      <div className={styles.tripList} onClick={(e) => e.stopPropagation()}>
+                        <div className={styles.tripListHeader}>
+                          🧭 Trips ({trips.length})
+                          {trip && (
+                            <button className={styles.tripClear} onClick={() => setSelectedTrip(null)}>
+                              Show all
+                            </button>
+                          )}
+                        </div>
+                        {trips.map((t, index) => {
+                          const tStats = tripStats(filterNoise(t.locations, noiseFilter));
+                          return (
+                            <div
+                              key={t.start}
+                              className={`${styles.tripRow} ${trip === t ? styles.tripRowActive : ''}`}
+                            >
+                              <button
+                                className={styles.tripSelect}
+                                onClick={() => setSelectedTrip(trip === t ? null : t.start)}
+                                title="Show only this trip in the timeline"
+                              >
+                                <span className={styles.tripName}>Trip {index + 1}</span>
+                                {new Date(t.start).toLocaleString()} – {new Date(t.end).toLocaleTimeString()}
+                              </button>
+                              <span className={styles.tripStats}>
+                                {formatDuration(tStats.durationMs)} · {formatDistance(tStats.distanceMeters)}
+                                {' · '}avg {formatSpeed(tStats.averageSpeed)} · max {formatSpeed(tStats.maxSpeed)}
+                              </span>
+                              <button className={styles.exportBtn} onClick={() => handleExportTrip(tracker, t)}>
+                                GPX
+                              </button>
+                              <Link
+                                href={reportUrl(tracker.id, tripRange(t))}
+                                className={`${styles.exportBtn} ${styles.exportLink}`}
+                              >
+                                📄 Report
+                              </Link>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                    {history.length >= DEFAULT_HISTORY_LIMIT && !historyExhausted[tracker.id] && (
+                      <button
+                        className={styles.loadOlderBtn}
+                        onClick={(e) => handleLoadOlder(tracker, e)}
+                        disabled={loadingOlder === tracker.id}
+                      >
+                        {loadingOlder === tracker.id ? 'Loading...' : '⏪ Load older locations'}
+                      </button>
+                    )}
+                    {history.length > 0 ? (
+                      <div className={styles.timeline}>
+                        {visibleHistory.length === 0 ? (
+                          <p style={{ color: '#888', fontSize: '13px' }}>No locations in this time range.</p>
+                        ) : timeline.map((entry, entryIndex) => {
+                          if (entry.kind === 'stay') {
+                            const { stay } = entry;
+                            return (
+                              <div key={`stay-${stay.arrival}`} className={styles.timelineItem}>
+                                <div className={`${styles.timelineDot} ${styles.stayDot}`} />
+                                {entryIndex < timeline.length - 1 && (
+                                  <div className={styles.timelineLine} />
                                 )}
-                              </div>
-                              <div className={styles.locationCoords}>
-                                <div className={styles.coordItem}>
-                                  <div className={styles.coordLabel}>Latitude</div>
-                                  <div className={styles.coordValue}>
-                                    {location.latitude.toFixed(6)}
+                                <div className={`${styles.locationEntry} ${styles.stayEntry}`}>
+                                  <div className={styles.locationTime}>
+                                    ⏸ Stopped {formatDuration(stay.durationMs)} at ({stay.latitude.toFixed(5)}, {stay.longitude.toFixed(5)})
                                   </div>
-                                </div>
-                                <div className={styles.coordItem}>
-                                  <div className={styles.coordLabel}>Longitude</div>
-                                  <div className={styles.coordValue}>
-                                    {location.longitude.toFixed(6)}
-                                  </div>
-                                </div>
-                                <div className={styles.coordItem}>
-                                  <div className={styles.coordLabel}>Accuracy</div>
-                                  <div className={styles.coordValue}>
-                                    ±{location.accuracy.toFixed(2)}m
+                                  <div className={styles.stayTimes}>
+                                    {new Date(stay.arrival).toLocaleString()} – {new Date(stay.departure).toLocaleTimeString()}
+                                    {' · '}{stay.endIndex - stay.startIndex + 1} fixes
                                   </div>
+                                  <Address latitude={stay.latitude} longitude={stay.longitude} className={styles.address} />
+                                  <button
+                                    className="btn btn-success"
+                                    onClick={(e) => viewOnMap(stay.latitude, stay.longitude, e)}
+                                  >
+                                    🗺️ View on Map
+                                  </button>
                                 </div>
                               </div>
-                              {location.deviceInfo && (
+                            );
+                          }
+
+                          const { location, index } = entry;
+                          const previous = index > 0 ? visibleHistory[index - 1] : null;
+                          const dist = previous ? distanceBetween(previous, location) : 0;
+                          const speed = previous ? speedBetween(previous, location) : null;
+                          const heading = previous && dist > 0 ? bearing(previous, location) : null;
+                          const gapBefore = gaps.find(
+                            (gap) => gap.sessionId === location.sessionId && gap.beforeSeq === location.seq
+                          );
+                          return (
+                            <div key={location.id || index} className={styles.timelineItem}>
+                              <div className={styles.timelineDot} />
+                              {entryIndex < timeline.length - 1 && (
+                                <div className={styles.timelineLine} />
+                              )}
+                              <div className={styles.locationEntry}>
+                                <div className={styles.locationTime}>
+                                  ⏱ {new Date(location.timestamp).toLocaleString()}
+                                  {index > 0 && (
+                                    <span className={styles.segmentDistance}>
+                                      +{formatDistance(dist)}
+                                      {speed !== null && ` · ${formatSpeed(speed)}`}
+                                      {heading !== null && ` · ${compassDirection(heading)} ${heading.toFixed(0)}°`}
+                                    </span>
+                                  )}
+                                  {gapBefore && (
+                                    <span className={styles.gapBadge}>
+                                      ⚠ {gapBefore.missing} missing before #{location.seq}
+                                    </span>
+                                  )}
+                                </div>
                                 <div className={styles.locationCoords}>
                                   <div className={styles.coordItem}>
-                                    <div className={styles.coordLabel}>Device</div>
+                                    <div className={styles.coordLabel}>Latitude</div>
                                     <div className={styles.coordValue}>
-                                      {location.deviceInfo.os} - {location.deviceInfo.browser}
+                                      {location.latitude.toFixed(6)}
                                     </div>
                                   </div>
                                   <div className={styles.coordItem}>
-                                    <div className={styles.coordLabel}>Screen</div>
+                                    <div className={styles.coordLabel}>Longitude</div>
                                     <div className={styles.coordValue}>
-                                      {location.deviceInfo.screen}
+                                      {location.longitude.toFixed(6)}
                                     </div>
                                   </div>
-                                  {location.ip && (
+                                  <div className={styles.coordItem}>
+                                    <div className={styles.coordLabel}>Accuracy</div>
+                                    <div className={styles.coordValue}>
+                                      ±{formatDistance(location.accuracy)}
+                                    </div>
+                                  </div>
+                                </div>
+                                {location.deviceInfo && (
+                                  <div className={styles.locationCoords}>
                                     <div className={styles.coordItem}>
-                                      <div className={styles.coordLabel}>IP Address</div>
+                                      <div className={styles.coordLabel}>Device</div>
                                       <div className={styles.coordValue}>
-                                        {location.ip}
+                                        {location.deviceInfo.os} - {location.deviceInfo.browser}
                                       </div>
                                     </div>
-                                  )}
-                                </div>
-                              )}
-                              <button
-                                className="btn btn-success"
-                                onClick={(e) =>
-                                  viewOnMap(location.latitude, location.longitude, e)
-                                }
-                              >
-                                🗺️ View on Map
-                              </button>
+                                    <div className={styles.coordItem}>
+                                      <div className={styles.coordLabel}>Screen</div>
+                                      <div className={styles.coordValue}>
+                                        {location.deviceInfo.screen}
+                                      </div>
+                                    </div>
+                                    {location.ip && (
+                                      <div className={styles.coordItem}>
+                                        <div className={styles.coordLabel}>IP Address</div>
+                                        <div className={styles.coordValue}>
+                                          {location.ip}
+                                        </div>
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
+                                <button
+                                  className="btn btn-success"
+                                  onClick={(e) =>
+                                    viewOnMap(location.latitude, location.longitude, e)
+                                  }
+                                >
+                                  🗺️ View on Map
+                                </button>
+                              </div>
                             </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  ) : (
-                    <p style={{ color: '#666' }}>No location data received yet. Share the tracking link to begin receiving coordinates.</p>
-                  )}
-                </div>
-              )}
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <p style={{ color: '#666' }}>No location data received yet. Share the tracking link to begin receiving coordinates.</p>
+                    )}
+                  </div>
+                );
+              })()}
             </div>
-          ))
+            );
+          })
         )}
       </div>
     </div>
@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { useAuth } from '@/lib/auth-context';
+import { Tracker, LocationData, getTrackerAsync, getFullHistoryAsync } from '@/lib/storage';
+import { getStorageErrorMessage } from '@/lib/storage-errors';
+import { getTrackerColor } from '@/lib/tracker-color';
+import { distanceBetween, pathDistance } from '@/lib/geo';
+import { filterNoise } from '@/lib/noise-filter';
+import { detectStayPoints, formatDuration } from '@/lib/stay-points';
+import { detectGeofenceEvents } from '@/lib/geofence-events';
+import { splitTrips, tripStats } from '@/lib/trips';
+import { geofencesToGeoJSON } from '@/lib/formats/geojson';
+import { useGeofence } from '@/lib/geofence-context';
+import { useUnits } from '@/lib/units-context';
+import { useNoiseFilter } from '@/lib/noise-filter-context';
+import Address from '@/components/Address';
+import styles from './page.module.css';
+
+const ReportMap = dynamic(() => import('./report-map'), { ssr: false });
+
+// Without a range the report covers the last 24 hours
+const DEFAULT_REPORT_SPAN_MS = 86400000;
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Convert a date to the value format of a datetime-local input
+function toDateTimeLocal(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function ReportContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+  const { geofences } = useGeofence();
+  const { formatDistance, formatSpeed } = useUnits();
+  const { noiseFilter } = useNoiseFilter();
+
+  // Fixed at first render so the default range does not move on every re-render
+  const [openedAt] = useState(() => Date.now());
+
+  const trackingId = searchParams.get('id');
+  const to = parseDate(searchParams.get('to')) ?? new Date(openedAt);
+  const from = parseDate(searchParams.get('from')) ?? new Date(to.getTime() - DEFAULT_REPORT_SPAN_MS);
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  const [tracker, setTracker] = useState<Tracker | null>(null);
+  const [locations, setLocations] = useState<LocationData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rangeForm, setRangeForm] = useState({ from: toDateTimeLocal(from), to: toDateTimeLocal(to) });
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [authLoading, user, router]);
+
+  useEffect(() => {
+    if (!user || !trackingId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([
+      getTrackerAsync(trackingId, { limit: 1 }),
+      getFullHistoryAsync(trackingId, { from: fromIso, to: toIso }),
+    ])
+      .then(([loadedTracker, history]) => {
+        if (cancelled) return;
+        setTracker(loadedTracker);
+        setLocations(history);
+        if (!loadedTracker) setError('Tracker not found.');
+      })
+      .catch((loadError) => {
+        console.error('Error loading report:', loadError);
+        if (!cancelled) setError(getStorageErrorMessage(loadError));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, trackingId, fromIso, toIso]);
+
+  const handleApplyRange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextFrom = parseDate(rangeForm.from);
+    const nextTo = parseDate(rangeForm.to);
+    if (!trackingId || !nextFrom || !nextTo || nextFrom >= nextTo) return;
+    const params = new URLSearchParams({ id: trackingId, from: nextFrom.toISOString(), to: nextTo.toISOString() });
+    router.replace(`/dashboard/report?${params.toString()}`);
+  };
+
+  if (!trackingId) {
+    return (
+      <div className={styles.page}>
+        <p className={styles.message}>No tracker selected. Open a report from the dashboard.</p>
+        <Link href="/dashboard" className={styles.backLink}>← Back to dashboard</Link>
+      </div>
+    );
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className={styles.page}>
+        <div className="spinner"></div>
+      </div>
+    );
+  }
+
+  const segmentDistances = locations.map((loc, i) =>
+    i === 0 ? 0 : distanceBetween(locations[i - 1], loc)
+  );
+  // The fix table lists every fix, but distance and the drawn route skip GPS noise
+  const path = filterNoise(locations, noiseFilter);
+  const totalDistance = pathDistance(path);
+  const stays = detectStayPoints(locations);
+  const trips = splitTrips(locations);
+  const stoppedMs = stays.reduce((sum, stay) => sum + stay.durationMs, 0);
+  const trackerGeofences = geofences.filter((g) => g.trackerId === trackingId);
+  const events = detectGeofenceEvents(locations, trackerGeofences);
+  const spanMs = locations.length > 1
+    ? new Date(locations[locations.length - 1].timestamp).getTime() - new Date(locations[0].timestamp).getTime()
+    : 0;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.toolbar}>
+        <Link href="/dashboard" className={styles.backLink}>← Back to dashboard</Link>
+        <form className={styles.rangeForm} onSubmit={handleApplyRange}>
+          <label>
+            From
+            <input
+              type="datetime-local"
+              value={rangeForm.from}
+              onChange={(e) => setRangeForm({ ...rangeForm, from: e.target.value })}
+            />
+          </label>
+          <label>
+            To
+            <input
+              type="datetime-local"
+              value={rangeForm.to}
+              onChange={(e) => setRangeForm({ ...rangeForm, to: e.target.value })}
+            />
+          </label>
+          <button type="submit" className="btn btn-secondary">Update</button>
+        </form>
+        <button className="btn" onClick={() => window.print()}>🖨 Print / Save PDF</button>
+      </div>
+
+      {error ? (
+        <p className={styles.message}>{error}</p>
+      ) : tracker && (
+        <article className={styles.report}>
+          <header className={styles.reportHeader}>
+            <h1>{tracker.name}</h1>
+            {tracker.description && <p className={styles.description}>{tracker.description}</p>}
+            <p className={styles.period}>
+              {from.toLocaleString()} – {to.toLocaleString()}
+            </p>
+          </header>
+
+          <section className={styles.stats}>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Distance</span>
+              <span className={styles.statValue}>{formatDistance(totalDistance)}</span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Time span</span>
+              <span className={styles.statValue}>{formatDuration(spanMs)}</span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Stopped</span>
+              <span className={styles.statValue}>{formatDuration(stoppedMs)}</span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Stops</span>
+              <span className={styles.statValue}>{stays.length}</span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statLabel}>Fixes</span>
+              <span className={styles.statValue}>{locations.length}</span>
+            </div>
+          </section>
+
+          {locations.length === 0 ? (
+            <p className={styles.message}>No locations were recorded in this period.</p>
+          ) : (
+            <>
+              <div className={styles.map}>
+                <ReportMap
+                  locations={path}
+                  stays={stays}
+                  geofenceShapes={geofencesToGeoJSON(trackerGeofences)}
+                  color={getTrackerColor(tracker)}
+                />
+              </div>
+
+              <section className={styles.section}>
+                <h2>Trips</h2>
+                {trips.length === 0 ? (
+                  <p className={styles.empty}>No movement between stops in this period.</p>
+                ) : (
+                  <table className={styles.table}>
+                    <thead>
+                      <tr><th>#</th><th>Start</th><th>End</th><th>Duration</th><th>Distance</th><th>Avg speed</th><th>Max speed</th></tr>
+                    </thead>
+                    <tbody>
+                      {trips.map((trip, index) => {
+                        const stats = tripStats(filterNoise(trip.locations, noiseFilter));
+                        return (
+                          <tr key={trip.start}>
+                            <td>{index + 1}</td>
+                            <td>{new Date(trip.start).toLocaleString()}</td>
+                            <td>{new Date(trip.end).toLocaleString()}</td>
+                            <td>{formatDuration(stats.durationMs)}</td>
+                            <td>{formatDistance(stats.distanceMeters)}</td>
+                            <td>{formatSpeed(stats.averageSpeed)}</td>
+                            <td>{formatSpeed(stats.maxSpeed)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className={styles.section}>
+                <h2>Stops</h2>
+                {stays.length === 0 ? (
+                  <p className={styles.empty}>No stops of 5 minutes or more.</p>
+                ) : (
+                  <table className={styles.table}>
+                    <thead>
+                      <tr><th>#</th><th>Arrived</th><th>Left</th><th>Duration</th><th>Position</th></tr>
+                    </thead>
+                    <tbody>
+                      {stays.map((stay, index) => (
+                        <tr key={stay.arrival}>
+                          <td>{index + 1}</td>
+                          <td>{new Date(stay.arrival).toLocaleString()}</td>
+                          <td>{new Date(stay.departure).toLocaleString()}</td>
+                          <td>{formatDuration(stay.durationMs)}</td>
+                          <td>
+                            {stay.latitude.toFixed(5)}, {stay.longitude.toFixed(5)}
+                            <Address latitude={stay.latitude} longitude={stay.longitude} className={styles.address} />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className={styles.section}>
+                <h2>Geofence Events</h2>
+                {trackerGeofences.length === 0 ? (
+                  <p className={styles.empty}>This tracker has no geofences.</p>
+                ) : events.length === 0 ? (
+                  <p className={styles.empty}>No geofence entries or exits in this period.</p>
+                ) : (
+                  <table className={styles.table}>
+                    <thead>
+                      <tr><th>Time</th><th>Event</th><th>Geofence</th></tr>
+                    </thead>
+                    <tbody>
+                      {events.map((event) => (
+                        <tr key={`${event.geofenceId}:${event.timestamp}`}>
+                          <td>{new Date(event.timestamp).toLocaleString()}</td>
+                          <td>{event.type === 'enter' ? 'Entered' : 'Exited'}</td>
+                          <td>{event.geofenceName}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className={styles.section}>
+                <h2>Fixes</h2>
+                <table className={`${styles.table} ${styles.fixTable}`}>
+                  <thead>
+                    <tr><th>Time</th><th>Latitude</th><th>Longitude</th><th>Accuracy</th><th>Distance</th></tr>
+                  </thead>
+                  <tbody>
+                    {locations.map((loc, index) => (
+                      <tr key={loc.id || `${loc.timestamp}:${index}`}>
+                        <td>{new Date(loc.timestamp).toLocaleString()}</td>
+                        <td>{loc.latitude.toFixed(6)}</td>
+                        <td>{loc.longitude.toFixed(6)}</td>
+                        <td>±{formatDistance(loc.accuracy)}</td>
+                        <td>{index > 0 ? `+${formatDistance(segmentDistances[index])}` : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            </>
+          )}
+
+          <footer className={styles.footer}>
+            Generated {new Date().toLocaleString()} · Tracker {tracker.id}
+          </footer>
+        </article>
+      )}
+    </div>
+  );
+}
+
+export default function ReportPage() {
+  return (
+    <Suspense fallback={
+      <div className={styles.page}>
+        <div className="spinner"></div>
+      </div>
+    }>
+      <ReportContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import L from 'leaflet';
+import { MapContainer, TileLayer, Polyline, CircleMarker, Tooltip, GeoJSON, useMap } from 'react-leaflet';
+import type { LocationData } from '@/lib/storage';
+import type { StayPoint } from '@/lib/stay-points';
+import type { FeatureCollection } from '@/lib/formats/geojson';
+import 'leaflet/dist/leaflet.css';
+
+interface ReportMapProps {
+  locations: LocationData[];
+  stays: StayPoint[];
+  geofenceShapes: FeatureCollection;
+  color: string;
+}
+
+function FitRoute({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length > 0) {
+      map.fitBounds(L.latLngBounds(positions), { padding: [30, 30], maxZoom: 16 });
+    }
+  }, [positions, map]);
+
+  return null;
+}
+
+// A fixed, non-interactive map so the printed page matches the screen
+export default function ReportMap({ locations, stays, geofenceShapes, color }: ReportMapProps) {
+  const positions = useMemo(
+    () => locations.map((loc): [number, number] => [loc.latitude, loc.longitude]),
+    [locations]
+  );
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+
+  return (
+    <MapContainer
+      center={first ?? [20, 0]}
+      zoom={first ? 13 : 2}
+      style={{ height: '100%', width: '100%' }}
+      zoomControl={false}
+      dragging={false}
+      scrollWheelZoom={false}
+      doubleClickZoom={false}
+      touchZoom={false}
+      keyboard={false}
+      attributionControl={true}
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/">CARTO</a>'
+        url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
+      />
+      <FitRoute positions={positions} />
+
+      {geofenceShapes.features.length > 0 && (
+        <GeoJSON
+          key={geofenceShapes.features.map((f) => f.id).join(',')}
+          data={geofenceShapes}
+          style={{ color: '#6666cc', weight: 2, dashArray: '6 4', fillOpacity: 0.08 }}
+        />
+      )}
+      {positions.length > 1 && (
+        <Polyline positions={positions} pathOptions={{ color, weight: 4, opacity: 0.9 }} />
+      )}
+      {stays.map((stay, index) => (
+        <CircleMarker
+          key={stay.arrival}
+          center={[stay.latitude, stay.longitude]}
+          radius={9}
+          pathOptions={{ color: '#cc7a00', fillColor: '#ffaa00', fillOpacity: 0.9, weight: 2 }}
+        >
+          <Tooltip permanent direction="center">
+            {index + 1}
+          </Tooltip>
+        </CircleMarker>
+      ))}
+      {first && <CircleMarker center={first} radius={7} pathOptions={{ color: '#00994d', fillOpacity: 1 }} />}
+      {last && <CircleMarker center={last} radius={7} pathOptions={{ color: '#cc0033', fillOpacity: 1 }} />}
+    </MapContainer>
+  );
+}
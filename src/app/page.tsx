@@ -2,13 +2,14 @@
 
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { getStorageBackend } from '@/lib/tracker-repository';
 
 export default function Home() {
   const router = useRouter();
 
   useEffect(() => {
-    // Redirect to login page
-    router.push('/login');
+    // Redirect to login page; the local backends need no sign-in
+    router.push(getStorageBackend() === 'firebase' ? '/login' : '/dashboard');
   }, [router]);
 
   return (
@@ -3,16 +3,22 @@
 import { AuthProvider } from '@/lib/auth-context';
 import { ThemeProvider } from '@/lib/theme-context';
 import { GeofenceProvider } from '@/lib/geofence-context';
+import { UnitsProvider } from '@/lib/units-context';
+import { NoiseFilterProvider } from '@/lib/noise-filter-context';
 import { ToastProvider } from '@/components/Toast';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <ThemeProvider>
-      <AuthProvider>
-        <GeofenceProvider>
-          <ToastProvider>{children}</ToastProvider>
-        </GeofenceProvider>
-      </AuthProvider>
+      <UnitsProvider>
+        <NoiseFilterProvider>
+          <AuthProvider>
+            <GeofenceProvider>
+              <ToastProvider>{children}</ToastProvider>
+            </GeofenceProvider>
+          </AuthProvider>
+        </NoiseFilterProvider>
+      </UnitsProvider>
     </ThemeProvider>
   );
 }
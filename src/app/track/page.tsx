@@ -10,11 +10,21 @@ import {
   getCurrentPosition,
   getGeolocationErrorMessage,
   getOrCreateTrackerAsync,
+  getTrackerAsync,
   addLocationToTrackerAsync,
+  startLocationOutboxReplay,
 } from '@/lib/storage';
+import { subscribeToOutbox } from '@/lib/location-outbox';
+import { getStorageErrorMessage } from '@/lib/storage-errors';
+import { LocationSession, createLocationSession } from '@/lib/location-sequence';
+import { getRecordingBlockedMessage } from '@/lib/tracker-status';
+import { useUnits } from '@/lib/units-context';
 import styles from './page.module.css';
 
 interface LocationData {
+  id?: string;
+  sessionId?: string;
+  seq?: number;
   latitude: number;
   longitude: number;
   accuracy: number;
@@ -26,6 +36,7 @@ interface LocationData {
 type Status = 'loading' | 'success' | 'error';
 
 function TrackerContent() {
+  const { formatDistance } = useUnits();
   const searchParams = useSearchParams();
   const trackingId = searchParams.get('id');
 
@@ -36,28 +47,78 @@ function TrackerContent() {
   const [ipAddress, setIpAddress] = useState('Scanning...');
   const [updateCount, setUpdateCount] = useState(0);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
   const [trackerInitialized, setTrackerInitialized] = useState(false);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastFetchTimeRef = useRef<number>(0);
+  const sessionRef = useRef<LocationSession | null>(null);
+  // Set once the owner has paused, archived or expired the tracker
+  const [blockedMessage, setBlockedMessage] = useState<string | null>(null);
+  const blockedRef = useRef(false);
+
+  // Stop recording and tell the person holding the link why. The interval keeps
+  // running so each tick can check whether the owner reactivated the tracker.
+  const blockRecording = useCallback((message: string) => {
+    blockedRef.current = true;
+    setBlockedMessage(message);
+    setStatus('error');
+    setStatusMessage(message);
+  }, []);
+
+  const unblockRecording = useCallback(() => {
+    blockedRef.current = false;
+    setBlockedMessage(null);
+    setStatus('loading');
+    setStatusMessage('Recording resumed, acquiring target coordinates...');
+  }, []);
+
+  // Re-read the tracker's lifecycle state; returns false if recording must stop.
+  // If the state can't be read, recording stays as it was.
+  const checkRecordingAllowed = useCallback(async () => {
+    if (!trackingId) return true;
+    try {
+      const tracker = await getTrackerAsync(trackingId, { limit: 1 });
+      const message = tracker ? getRecordingBlockedMessage(tracker) : null;
+      if (message) {
+        blockRecording(message);
+        return false;
+      }
+      if (blockedRef.current) unblockRecording();
+    } catch (error) {
+      console.error('Error checking tracker status:', error);
+    }
+    return !blockedRef.current;
+  }, [trackingId, blockRecording, unblockRecording]);
 
   // Initialize tracker if needed and save location
   const saveLocationToStorage = useCallback(async (data: LocationData) => {
     if (!trackingId) return false;
 
     try {
-      const success = await addLocationToTrackerAsync(trackingId, data);
-      if (success) {
+      const result = await addLocationToTrackerAsync(trackingId, data);
+      if (result === 'saved') {
         setUpdateCount((prev) => prev + 1);
         setLastUpdate(new Date());
+        return true;
       }
-      return success;
+      if (result === 'rejected') sessionRef.current?.release(data);
+      // A failed write may mean the owner paused or closed the link meanwhile
+      await checkRecordingAllowed();
+      return false;
     } catch (error) {
+      // Neither uploaded nor queued: the fix is lost, so say so
       console.error('Error saving location:', error);
+      sessionRef.current?.release(data);
+      setStatus('error');
+      setStatusMessage(getStorageErrorMessage(error));
       return false;
     }
-  }, [trackingId]);
+  }, [trackingId, checkRecordingAllowed]);
 
   const fetchLocation = useCallback(async (isAutoUpdate = false) => {
+    // While blocked, every tick re-checks the tracker instead of taking a fix
+    if (blockedRef.current && !(await checkRecordingAllowed())) return;
+
     if (!isAutoUpdate) {
       setStatus('loading');
       setStatusMessage('Acquiring target coordinates...');
@@ -68,7 +129,7 @@ function TrackerContent() {
       const device = getDeviceInfo();
       const ip = await getIPAddress();
 
-      const data: LocationData = {
+      let data: LocationData = {
         latitude: position.coords.latitude,
         longitude: position.coords.longitude,
         accuracy: position.coords.accuracy,
@@ -77,6 +138,14 @@ function TrackerContent() {
         ip,
       };
 
+      // Stamp the fix with a point ID and sequence number for idempotent writes
+      if (trackingId) {
+        if (!sessionRef.current) {
+          sessionRef.current = createLocationSession(trackingId);
+        }
+        data = sessionRef.current.stamp(data);
+      }
+
       setLocationData(data);
       setDeviceInfo(device);
       setIpAddress(ip);
@@ -99,7 +168,7 @@ function TrackerContent() {
       }
       setStatus('error');
     }
-  }, [trackingId, saveLocationToStorage]);
+  }, [trackingId, saveLocationToStorage, checkRecordingAllowed]);
 
   // Initialize tracker and start location tracking
   useEffect(() => {
@@ -113,7 +182,12 @@ function TrackerContent() {
       // Ensure tracker exists in Firebase before fetching location
       if (trackingId && !trackerInitialized) {
         try {
-          await getOrCreateTrackerAsync(trackingId);
+          const tracker = await getOrCreateTrackerAsync(trackingId);
+          const message = tracker ? getRecordingBlockedMessage(tracker) : null;
+          if (message) {
+            if (!cancelled) blockRecording(message);
+            return;
+          }
           if (!cancelled) {
             setTrackerInitialized(true);
           }
@@ -168,6 +242,16 @@ function TrackerContent() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [trackingId]);
 
+  // Upload fixes queued while offline and keep the pending count on screen
+  useEffect(() => {
+    const stopReplay = startLocationOutboxReplay();
+    const unsubscribe = subscribeToOutbox(setPendingCount);
+    return () => {
+      stopReplay();
+      unsubscribe();
+    };
+  }, []);
+
   const mapUrl = locationData
     ? `https://maps.google.com/maps?q=${locationData.latitude},${locationData.longitude}&z=15&output=embed`
     : '';
@@ -181,7 +265,11 @@ function TrackerContent() {
         {trackingId && (
           <div className={styles.trackerInfo}>
             <p>🔗 <strong>Active Session:</strong> {trackingId.substring(0, 20)}...</p>
-            <p>📡 Location data is being recorded to Firebase</p>
+            <p>
+              {blockedMessage
+                ? '⛔ Location recording has stopped for this link'
+                : '📡 Location data is being recorded to Firebase'}
+            </p>
           </div>
         )}
 
@@ -192,6 +280,12 @@ function TrackerContent() {
           {statusMessage}
         </div>
 
+        {pendingCount > 0 && (
+          <div className={styles.outboxStatus}>
+            ⏳ {pendingCount} location update{pendingCount !== 1 ? 's' : ''} queued offline • uploading when connection returns
+          </div>
+        )}
+
         {trackingId && status === 'success' && (
           <div className={styles.autoUpdateStatus}>
             <div className={styles.pulse}></div>
@@ -222,7 +316,7 @@ function TrackerContent() {
               </div>
               <div className="info-card">
                 <div className="info-label">Accuracy</div>
-                <div className="info-value">±{locationData.accuracy.toFixed(2)}m</div>
+                <div className="info-value">±{formatDistance(locationData.accuracy)}</div>
               </div>
               <div className="info-card">
                 <div className="info-label">Timestamp</div>
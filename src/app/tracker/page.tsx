@@ -12,12 +12,17 @@ import {
   generateTrackingId,
   getOrCreateTrackerAsync,
   addLocationToTrackerAsync,
+  startLocationOutboxReplay,
 } from '@/lib/storage';
+import { subscribeToOutbox } from '@/lib/location-outbox';
+import { LocationSession, createLocationSession } from '@/lib/location-sequence';
+import { useUnits } from '@/lib/units-context';
 import styles from './page.module.css';
 
 type Status = 'loading' | 'success' | 'error';
 
 export default function StandaloneTracker() {
+  const { formatDistance } = useUnits();
   const [status, setStatus] = useState<Status>('loading');
   const [statusMessage, setStatusMessage] = useState('Initializing tracking system...');
   const [locationData, setLocationData] = useState<LocationData | null>(null);
@@ -25,10 +30,12 @@ export default function StandaloneTracker() {
   const [ipAddress, setIpAddress] = useState('Scanning...');
   const [updateCount, setUpdateCount] = useState(0);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
   const trackingIdRef = useRef<string>('');
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastFetchTimeRef = useRef<number>(0);
   const trackerReadyRef = useRef(false);
+  const sessionRef = useRef<LocationSession | null>(null);
 
   // Generate or retrieve a session tracking ID for this standalone tracker
   useEffect(() => {
@@ -59,13 +66,16 @@ export default function StandaloneTracker() {
         await getOrCreateTrackerAsync(trackingId);
         trackerReadyRef.current = true;
       }
-      const success = await addLocationToTrackerAsync(trackingId, data);
-      if (success) {
+      const result = await addLocationToTrackerAsync(trackingId, data);
+      if (result === 'saved') {
         setUpdateCount((prev) => prev + 1);
         setLastUpdate(new Date());
+      } else if (result === 'rejected') {
+        sessionRef.current?.release(data);
       }
     } catch (error) {
       console.error('Error syncing location to Firebase:', error);
+      sessionRef.current?.release(data);
     }
   }, []);
 
@@ -80,7 +90,7 @@ export default function StandaloneTracker() {
       const device = getDeviceInfo();
       const ip = await getIPAddress();
 
-      const data: LocationData = {
+      let data: LocationData = {
         latitude: position.coords.latitude,
         longitude: position.coords.longitude,
         accuracy: position.coords.accuracy,
@@ -89,6 +99,14 @@ export default function StandaloneTracker() {
         ip,
       };
 
+      // Stamp the fix with a point ID and sequence number for idempotent writes
+      if (trackingIdRef.current) {
+        if (!sessionRef.current) {
+          sessionRef.current = createLocationSession(trackingIdRef.current);
+        }
+        data = sessionRef.current.stamp(data);
+      }
+
       setLocationData(data);
       setDeviceInfo(device);
       setIpAddress(ip);
@@ -148,6 +166,16 @@ export default function StandaloneTracker() {
     };
   }, [fetchLocation]);
 
+  // Upload fixes queued while offline and keep the pending count on screen
+  useEffect(() => {
+    const stopReplay = startLocationOutboxReplay();
+    const unsubscribe = subscribeToOutbox(setPendingCount);
+    return () => {
+      stopReplay();
+      unsubscribe();
+    };
+  }, []);
+
   const mapUrl = locationData
     ? `https://maps.google.com/maps?q=${locationData.latitude},${locationData.longitude}&z=15&output=embed`
     : '';
@@ -174,6 +202,12 @@ export default function StandaloneTracker() {
           {statusMessage}
         </div>
 
+        {pendingCount > 0 && (
+          <div className={styles.outboxStatus}>
+            ⏳ {pendingCount} location update{pendingCount !== 1 ? 's' : ''} queued offline • uploading when connection returns
+          </div>
+        )}
+
         {locationData && (
           <div className={styles.locationInfo}>
             <div className="info-grid">
@@ -187,7 +221,7 @@ export default function StandaloneTracker() {
               </div>
               <div className="info-card">
                 <div className="info-label">Accuracy</div>
-                <div className="info-value">±{locationData.accuracy.toFixed(2)}m</div>
+                <div className="info-value">±{formatDistance(locationData.accuracy)}</div>
               </div>
               <div className="info-card">
                 <div className="info-label">Timestamp</div>
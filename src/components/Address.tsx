@@ -0,0 +1,30 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { reverseGeocode } from '@/lib/geocoding';
+
+interface AddressProps {
+  latitude: number;
+  longitude: number;
+  className?: string;
+}
+
+// Street address for a position, rendered once the (cached) lookup resolves.
+// Renders nothing while loading or when no address is known.
+export default function Address({ latitude, longitude, className }: AddressProps) {
+  const [label, setLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLabel(null);
+    reverseGeocode(latitude, longitude).then((result) => {
+      if (!cancelled) setLabel(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [latitude, longitude]);
+
+  if (!label) return null;
+  return <span className={className} title={label}>{label}</span>;
+}
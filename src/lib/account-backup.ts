@@ -0,0 +1,198 @@
+// Whole-account backup archives: every tracker with its full history, plus the
+// geofences and geofence states that only ever live in this browser's localStorage
+import {
+  Tracker,
+  getFullHistoryAsync,
+  getDefaultRetentionAsync,
+  setDefaultRetentionAsync,
+  importLocationsAsync,
+  restoreTrackerAsync,
+  generateTrackingId,
+} from './storage';
+import { isStorageError } from './storage-errors';
+import type { Geofence } from './geofence-context';
+import { RetentionPolicy, isRetentionPolicy } from './retention';
+
+export const BACKUP_FORMAT = 'geotracker-backup';
+// Bump when the archive layout changes; restore refuses archives from a newer version
+export const BACKUP_VERSION = 1;
+
+export interface AccountBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  retentionDefault: RetentionPolicy | null;
+  // Full histories; summaries are left out and rebuilt on restore
+  trackers: Tracker[];
+  geofences: Geofence[];
+  // Last known inside/outside state per `${geofenceId}:${trackerId}`
+  geofenceStates: Record<string, boolean>;
+}
+
+// What to do with a backed-up tracker whose ID already exists in the account
+export type RestoreConflictMode = 'skip' | 'merge' | 'copy';
+
+export const RESTORE_CONFLICT_MODES: { value: RestoreConflictMode; label: string }[] = [
+  { value: 'skip', label: 'Keep the existing tracker' },
+  { value: 'merge', label: 'Merge missing history into it' },
+  { value: 'copy', label: 'Restore as a separate copy' },
+];
+
+export interface RestoreResult {
+  created: number;
+  merged: number;
+  skipped: number;
+  failed: { name: string; error: unknown }[];
+  locationsAdded: number;
+  // Backup tracker ID -> ID it was restored under, for every tracker not skipped
+  trackerIds: Record<string, string>;
+}
+
+/**
+ * Build an archive of the account's trackers, histories and geofences
+ * @param trackers - The account's trackers (metadata only is fine)
+ * @param onProgress - Called after each tracker's history is loaded
+ */
+export async function createBackupAsync(
+  trackers: Tracker[],
+  geofences: Geofence[],
+  geofenceStates: Record<string, boolean>,
+  onProgress?: (done: number, total: number) => void
+): Promise<AccountBackup> {
+  const backedUp: Tracker[] = [];
+  for (const tracker of trackers) {
+    const full: Tracker = { ...tracker, locations: await getFullHistoryAsync(tracker.id) };
+    delete full.summary;
+    backedUp.push(full);
+    onProgress?.(backedUp.length, trackers.length);
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    retentionDefault: await getDefaultRetentionAsync(),
+    trackers: backedUp,
+    geofences,
+    geofenceStates,
+  };
+}
+
+// Read an archive; throws with a user-readable message when it is not one we can restore
+export function parseBackup(text: string): AccountBackup {
+  let data: Partial<AccountBackup>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (data?.format !== BACKUP_FORMAT || typeof data.version !== 'number') {
+    throw new Error('The file is not a GeoTracker backup');
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of GeoTracker');
+  }
+  if (!Array.isArray(data.trackers)) {
+    throw new Error('The backup has no trackers list');
+  }
+  data.trackers.forEach((tracker, index) => {
+    if (!tracker || typeof tracker.id !== 'string' || typeof tracker.name !== 'string' || !Array.isArray(tracker.locations)) {
+      throw new Error(`Tracker ${index + 1} in the backup is incomplete`);
+    }
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    retentionDefault: isRetentionPolicy(data.retentionDefault) ? data.retentionDefault : null,
+    trackers: data.trackers,
+    geofences: Array.isArray(data.geofences) ? data.geofences : [],
+    geofenceStates: data.geofenceStates && typeof data.geofenceStates === 'object' ? data.geofenceStates : {},
+  };
+}
+
+/**
+ * Recreate the trackers in an archive. Trackers whose ID is free are restored
+ * under the same ID so shared links keep working; conflicts follow `mode`.
+ * @param existingIds - IDs of the trackers already in the account
+ */
+export async function restoreBackupAsync(
+  backup: AccountBackup,
+  existingIds: Set<string>,
+  mode: RestoreConflictMode,
+  onProgress?: (done: number, total: number) => void
+): Promise<RestoreResult> {
+  const result: RestoreResult = { created: 0, merged: 0, skipped: 0, failed: [], locationsAdded: 0, trackerIds: {} };
+
+  for (const [index, tracker] of backup.trackers.entries()) {
+    let conflict = existingIds.has(tracker.id);
+    try {
+      // `existingIds` comes from the loaded list; the backend has the final say
+      // on whether the ID is free
+      if (!conflict) {
+        try {
+          result.locationsAdded += await restoreTrackerAsync(tracker, tracker.id);
+          result.trackerIds[tracker.id] = tracker.id;
+          result.created++;
+        } catch (error) {
+          if (!isStorageError(error, 'already-exists')) throw error;
+          conflict = true;
+        }
+      }
+      if (conflict && mode === 'skip') {
+        result.skipped++;
+      } else if (conflict && mode === 'merge') {
+        result.locationsAdded += await importLocationsAsync(tracker.id, tracker.locations);
+        result.trackerIds[tracker.id] = tracker.id;
+        result.merged++;
+      } else if (conflict) {
+        const trackingId = generateTrackingId();
+        const copy = { ...tracker, name: `${tracker.name} (restored)`.slice(0, 100) };
+        result.locationsAdded += await restoreTrackerAsync(copy, trackingId);
+        result.trackerIds[tracker.id] = trackingId;
+        result.created++;
+      }
+    } catch (error) {
+      console.error(`Error restoring tracker ${tracker.id}:`, error);
+      result.failed.push({ name: tracker.name, error });
+    }
+    onProgress?.(index + 1, backup.trackers.length);
+  }
+
+  if (backup.retentionDefault) {
+    await setDefaultRetentionAsync(backup.retentionDefault);
+  }
+  return result;
+}
+
+// Point the archive's geofences and their states at the IDs the trackers were
+// restored under, dropping those of trackers that were skipped or failed.
+// Geofences of a tracker restored as a copy get new IDs so they do not collide
+// with the original tracker's.
+export function remapGeofences(
+  backup: AccountBackup,
+  trackerIds: Record<string, string>
+): { geofences: Geofence[]; states: Record<string, boolean> } {
+  const geofenceIds: Record<string, string> = {};
+  const geofences: Geofence[] = [];
+  backup.geofences.forEach((g) => {
+    const trackerId = trackerIds[g.trackerId];
+    if (!trackerId) return;
+    const id = trackerId === g.trackerId ? g.id : `${g.id}_${trackerId}`;
+    geofenceIds[g.id] = id;
+    geofences.push({ ...g, id, trackerId });
+  });
+
+  const states: Record<string, boolean> = {};
+  Object.entries(backup.geofenceStates).forEach(([key, inside]) => {
+    const [geofenceId, trackerId] = key.split(':');
+    if (geofenceIds[geofenceId] && trackerIds[trackerId]) {
+      states[`${geofenceIds[geofenceId]}:${trackerIds[trackerId]}`] = inside;
+    }
+  });
+  return { geofences, states };
+}
+
+export function serializeBackup(backup: AccountBackup): string {
+  return JSON.stringify(backup, null, 2);
+}
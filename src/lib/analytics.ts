@@ -0,0 +1,112 @@
+// Per-tracker statistics for the analytics page, computed from a history
+// sorted oldest first. Days and weekdays are in the browser's time zone.
+import type { LocationData } from './storage';
+import { distanceBetween, speedBetween } from './geo';
+
+// Consecutive fixes further apart than this do not count as active time
+export const ACTIVE_GAP_MS = 5 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface DailyValue {
+  // Local date, YYYY-MM-DD
+  day: string;
+  value: number;
+}
+
+export interface HistogramBin {
+  // Inclusive lower and exclusive upper bound; the last bin also holds values above it
+  from: number;
+  to: number;
+  count: number;
+}
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Every local day from `from` to `to`, so days without data still get a bar
+export function daysBetween(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (cursor <= to) {
+    days.push(dayKey(cursor));
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return days;
+}
+
+// Meters travelled per day; a hop counts on the day it ends
+export function distancePerDay(locations: LocationData[], days: string[]): DailyValue[] {
+  const totals = new Map(days.map((day) => [day, 0]));
+  for (let i = 1; i < locations.length; i++) {
+    const day = dayKey(new Date(locations[i].timestamp));
+    if (totals.has(day)) {
+      totals.set(day, (totals.get(day) as number) + distanceBetween(locations[i - 1], locations[i]));
+    }
+  }
+  return days.map((day) => ({ day, value: totals.get(day) as number }));
+}
+
+// Hours with the device reporting, per weekday (Sunday first)
+export function activeHoursPerWeekday(locations: LocationData[]): number[] {
+  const hours = new Array<number>(7).fill(0);
+  for (let i = 1; i < locations.length; i++) {
+    const gapMs = toTime(locations[i].timestamp) - toTime(locations[i - 1].timestamp);
+    if (gapMs > 0 && gapMs <= ACTIVE_GAP_MS) {
+      hours[new Date(locations[i - 1].timestamp).getDay()] += gapMs / 3600000;
+    }
+  }
+  return hours;
+}
+
+// Median seconds between consecutive fixes per day; 0 for days with fewer than two fixes
+export function updateCadencePerDay(locations: LocationData[], days: string[]): DailyValue[] {
+  const intervals = new Map<string, number[]>(days.map((day) => [day, []]));
+  for (let i = 1; i < locations.length; i++) {
+    const list = intervals.get(dayKey(new Date(locations[i].timestamp)));
+    if (list) list.push((toTime(locations[i].timestamp) - toTime(locations[i - 1].timestamp)) / 1000);
+  }
+  return days.map((day) => {
+    const sorted = (intervals.get(day) as number[]).sort((a, b) => a - b);
+    return { day, value: sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0 };
+  });
+}
+
+// Speeds between consecutive fixes in m/s
+export function segmentSpeeds(locations: LocationData[]): number[] {
+  const speeds: number[] = [];
+  for (let i = 1; i < locations.length; i++) {
+    const speed = speedBetween(locations[i - 1], locations[i]);
+    if (speed !== null) speeds.push(speed);
+  }
+  return speeds;
+}
+
+// Count values into equal-width bins from 0 to `max`; values above `max` go in the last bin
+export function histogram(values: number[], max: number, binCount: number): HistogramBin[] {
+  const width = max / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: i * width,
+    to: (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(value / width)));
+    bins[index].count++;
+  });
+  return bins;
+}
+
+// Value below which the given fraction of values fall; 0 for no values
+export function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
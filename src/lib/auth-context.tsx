@@ -13,9 +13,21 @@ import {
 import { auth } from './firebase';
 import { createOrUpdateUser } from './firebase-services';
 import { getFirebaseErrorMessage } from './firebase-errors';
+import { getStorageBackend } from './tracker-repository';
+
+// The parts of the signed-in user the pages rely on
+export type AuthUser = Pick<User, 'uid' | 'email' | 'displayName'>;
+
+// Stand-in user for the local and memory backends, which store nothing per
+// account and so need no sign-in
+const LOCAL_USER: AuthUser = {
+  uid: 'local',
+  email: null,
+  displayName: 'Local User',
+};
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, displayName?: string) => Promise<void>;
@@ -27,11 +39,13 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const localMode = getStorageBackend() !== 'firebase';
+  const [user, setUser] = useState<AuthUser | null>(localMode ? LOCAL_USER : null);
+  const [loading, setLoading] = useState(!localMode);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    if (localMode) return;
     try {
       const unsubscribe = onAuthStateChanged(auth, async (user) => {
         setUser(user);
@@ -61,9 +75,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setError(getFirebaseErrorMessage(error));
       setLoading(false);
     }
-  }, []);
+  }, [localMode]);
 
   const signIn = async (email: string, password: string) => {
+    if (localMode) return;
     try {
       setError(null);
       const result = await signInWithEmailAndPassword(auth, email, password);
@@ -83,6 +98,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signUp = async (email: string, password: string, displayName?: string) => {
+    if (localMode) return;
     try {
       setError(null);
       const result = await createUserWithEmailAndPassword(auth, email, password);
@@ -102,6 +118,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signInAsGuest = async () => {
+    if (localMode) return;
     try {
       setError(null);
       const result = await signInAnonymously(auth);
@@ -117,6 +134,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
+    if (localMode) return;
     try {
       setError(null);
       await signOut(auth);
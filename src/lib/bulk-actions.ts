@@ -0,0 +1,50 @@
+// Run one action over many trackers and report which ones failed
+
+export interface BulkFailure<T> {
+  item: T;
+  error?: unknown;
+}
+
+export interface BulkResult<T> {
+  succeeded: T[];
+  failed: BulkFailure<T>[];
+}
+
+// Apply `action` to each item in turn. An action that returns false or throws
+// counts as a failure; the remaining items still run.
+export async function runBulkAction<T>(
+  items: T[],
+  action: (item: T) => Promise<boolean>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkResult<T>> {
+  const result: BulkResult<T> = { succeeded: [], failed: [] };
+  for (const item of items) {
+    try {
+      if (await action(item)) {
+        result.succeeded.push(item);
+      } else {
+        result.failed.push({ item });
+      }
+    } catch (error) {
+      result.failed.push({ item, error });
+    }
+    onProgress?.(result.succeeded.length + result.failed.length, items.length);
+  }
+  return result;
+}
+
+// One-line summary for a toast, e.g. "Archived 38 of 40 trackers. Failed: Van 3, Van 7"
+export function summarizeBulkResult<T>(
+  verb: string,
+  result: BulkResult<T>,
+  label: (item: T) => string
+): string {
+  const total = result.succeeded.length + result.failed.length;
+  const noun = total === 1 ? 'tracker' : 'trackers';
+  if (result.failed.length === 0) {
+    return `${verb} ${total} ${noun}`;
+  }
+  const names = result.failed.map((f) => label(f.item));
+  const shown = names.slice(0, 5).join(', ') + (names.length > 5 ? ` and ${names.length - 5} more` : '');
+  return `${verb} ${result.succeeded.length} of ${total} ${noun}. Failed: ${shown}`;
+}
@@ -8,15 +8,36 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
-  arrayUnion,
   query,
   where,
+  orderBy,
+  limit,
   onSnapshot,
+  writeBatch,
+  getCountFromServer,
+  runTransaction,
+  deleteField,
   Timestamp,
   serverTimestamp,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
 } from 'firebase/firestore';
 import { db, auth } from './firebase';
-import type { DeviceInfo, LocationData, Tracker } from './storage';
+import type { HistoryStats, LocationData, Tracker, TrackerSummary, TrackerUpdate } from './storage';
+import { LocationRange, DEFAULT_HISTORY_LIMIT, applyLocationRange, sortAndLimit } from './location-range';
+import { dedupeLocations, excludeExisting, generateLocationId } from './location-sequence';
+import {
+  RetentionPolicy,
+  DEFAULT_RETENTION,
+  getRetentionPolicy,
+  isRetentionPolicy,
+  isExpiredLocation,
+  locationExpiry,
+} from './retention';
+import { StorageError, toStorageError } from './storage-errors';
+import { extendSummary } from './tracker-summary';
 
 // Check if user is currently authenticated
 function isAuthenticated(): boolean {
@@ -26,6 +47,10 @@ function isAuthenticated(): boolean {
 // Collection names
 const TRACKERS_COLLECTION = 'trackers';
 const USERS_COLLECTION = 'users';
+const LOCATIONS_SUBCOLLECTION = 'locations';
+
+// Firestore caps a write batch at 500 operations
+const WRITE_BATCH_SIZE = 500;
 
 // User interface
 export interface User {
@@ -49,7 +74,6 @@ function createTrackerData(name: string, userId?: string) {
     name: name || 'Unnamed Tracker',
     created: serverTimestamp(),
     updatedAt: serverTimestamp(),
-    locations: [],
   };
   if (userId) {
     data.userId = userId;
@@ -57,10 +81,256 @@ function createTrackerData(name: string, userId?: string) {
   return data;
 }
 
+// Build a Tracker from a Firestore document and an already-loaded window of its history
+function toTracker(id: string, data: DocumentData, locations: LocationData[]): Tracker {
+  const tracker: Tracker = {
+    id,
+    name: data.name || 'Unnamed Tracker',
+    created: timestampToString(data.created),
+    locations,
+  };
+  if (data.description) tracker.description = data.description;
+  if (Array.isArray(data.tags)) tracker.tags = data.tags;
+  if (data.color) tracker.color = data.color;
+  if (data.status) tracker.status = data.status;
+  if (data.expiresAt) tracker.expiresAt = timestampToString(data.expiresAt);
+  if (isRetentionPolicy(data.retention)) tracker.retention = data.retention;
+  if (data.summary) tracker.summary = data.summary as TrackerSummary;
+  return tracker;
+}
+
+function sortNewestFirst(trackers: Tracker[]): Tracker[] {
+  // Sort in JavaScript instead of Firestore to avoid requiring a composite index
+  return trackers.sort((a, b) => {
+    const dateA = new Date(a.created).getTime();
+    const dateB = new Date(b.created).getTime();
+    return dateB - dateA; // Newest first
+  });
+}
+
+// === LOCATION HISTORY ===
+
+// Location fixes live in the trackers/{id}/locations subcollection, one document per fix.
+// Trackers created before the subcollection existed keep an embedded `locations` array,
+// which is still read and merged so their history stays visible.
+
+function locationsRef(trackingId: string) {
+  return collection(db, TRACKERS_COLLECTION, trackingId, LOCATIONS_SUBCOLLECTION);
+}
+
+// A stored fix without its storage-only `expireAt` and `receivedAt` fields
+function toLocation(data: DocumentData): LocationData {
+  const location = { ...data };
+  delete location.expireAt;
+  delete location.receivedAt;
+  return location as LocationData;
+}
+
+// The policy that sets a tracker's fix expiry: its own, else the owner's account
+// default, which is copied onto the tracker because link holders cannot read
+// the owner's user document
+function trackerRetention(data: DocumentData | undefined): RetentionPolicy {
+  const accountDefault = isRetentionPolicy(data?.defaultRetention) ? data.defaultRetention : DEFAULT_RETENTION;
+  return getRetentionPolicy({ retention: data?.retention }, accountDefault);
+}
+
+// Each fix carries `expireAt`, the field the Firestore TTL policy deletes on
+// (see FIREBASE_SETUP.md), so retention holds even if the dashboard is never opened
+function expireAtFor(location: Pick<LocationData, 'timestamp'>, policy: RetentionPolicy): Timestamp {
+  return Timestamp.fromDate(locationExpiry(location, policy));
+}
+
+// Walk a tracker's stored fixes oldest first, one page at a time, so a long
+// history is never loaded in one read
+async function forEachLocationPage(
+  trackingId: string,
+  visit: (docs: QueryDocumentSnapshot[]) => Promise<void> | void
+): Promise<void> {
+  let last: QueryDocumentSnapshot | undefined;
+  let fetched: number;
+  do {
+    const constraints: QueryConstraint[] = [orderBy('timestamp', 'asc'), limit(WRITE_BATCH_SIZE)];
+    if (last) constraints.push(startAfter(last));
+    const snapshot = await getDocs(query(locationsRef(trackingId), ...constraints));
+    fetched = snapshot.size;
+    if (fetched === 0) break;
+    await visit(snapshot.docs);
+    last = snapshot.docs[fetched - 1];
+  } while (fetched === WRITE_BATCH_SIZE);
+}
+
+// Re-stamp `expireAt` on all of a tracker's fixes after its policy changed (owner only)
+async function restampLocationExpiry(trackingId: string, policy: RetentionPolicy): Promise<void> {
+  await forEachLocationPage(trackingId, async (docs) => {
+    const batch = writeBatch(db);
+    docs.forEach((d) => batch.update(d.ref, { expireAt: expireAtFor(toLocation(d.data()), policy) }));
+    await batch.commit();
+  });
+}
+
+// Query the newest fixes inside a range; timestamps are ISO strings so they sort lexically
+function locationsQuery(trackingId: string, range: LocationRange) {
+  const constraints: QueryConstraint[] = [];
+  if (range.from) constraints.push(where('timestamp', '>=', range.from));
+  if (range.to) constraints.push(where('timestamp', '<', range.to));
+  constraints.push(orderBy('timestamp', 'desc'), limit(range.limit ?? DEFAULT_HISTORY_LIMIT));
+  return query(locationsRef(trackingId), ...constraints);
+}
+
+// Combine legacy embedded fixes with subcollection fixes for the same range, oldest first
+function mergeLocations(data: DocumentData, stored: LocationData[], range: LocationRange): LocationData[] {
+  const embedded = applyLocationRange(data.locations || [], range);
+  return sortAndLimit(dedupeLocations([...embedded, ...stored]), range.limit ?? DEFAULT_HISTORY_LIMIT);
+}
+
+async function readLocations(trackingId: string, data: DocumentData, range: LocationRange): Promise<LocationData[]> {
+  const snapshot = await getDocs(locationsQuery(trackingId, range));
+  const stored = snapshot.docs.map((d) => toLocation(d.data()));
+  return mergeLocations(data, stored, range);
+}
+
+// Get a window of a tracker's location history, e.g. to page back past what is loaded
+export async function getLocationsFromFirebase(trackingId: string, range: LocationRange): Promise<LocationData[]> {
+  try {
+    const snapshot = await getDoc(doc(db, TRACKERS_COLLECTION, trackingId));
+    if (!snapshot.exists()) {
+      return [];
+    }
+    return await readLocations(trackingId, snapshot.data(), range);
+  } catch (error) {
+    console.error('Error getting locations:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Delete every document in a tracker's locations subcollection
+async function deleteAllLocations(trackingId: string): Promise<void> {
+  let deleted: number;
+  do {
+    const snapshot = await getDocs(query(locationsRef(trackingId), limit(WRITE_BATCH_SIZE)));
+    deleted = snapshot.size;
+    if (deleted === 0) break;
+    const batch = writeBatch(db);
+    snapshot.docs.forEach((d) => batch.delete(d.ref));
+    await batch.commit();
+  } while (deleted === WRITE_BATCH_SIZE);
+}
+
+// === RETENTION ===
+
+// Count a tracker's stored fixes (subcollection plus legacy embedded array) and find the oldest
+export async function getHistoryStatsFromFirebase(trackingId: string): Promise<HistoryStats> {
+  try {
+    const [trackerDoc, count, oldestDocs] = await Promise.all([
+      getDoc(doc(db, TRACKERS_COLLECTION, trackingId)),
+      getCountFromServer(locationsRef(trackingId)),
+      getDocs(query(locationsRef(trackingId), orderBy('timestamp', 'asc'), limit(1))),
+    ]);
+    const embedded: LocationData[] = trackerDoc.exists() ? trackerDoc.data().locations || [] : [];
+    const timestamps = [
+      ...embedded.map((loc) => loc.timestamp),
+      ...oldestDocs.docs.map((d) => toLocation(d.data()).timestamp),
+    ].sort();
+    return { count: count.data().count + embedded.length, oldest: timestamps[0] ?? null };
+  } catch (error) {
+    console.error('Error getting history stats:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Delete every fix recorded before `before` (owner only). This is the retention
+// prune job; point NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST at the emulator to run it
+// against seeded data. Returns the number of fixes removed.
+export async function pruneLocationsInFirebase(trackingId: string, before: string): Promise<number> {
+  if (!isAuthenticated()) {
+    console.warn('Skipping Firestore prune: waiting for user authentication');
+    return 0;
+  }
+  try {
+    let removed = 0;
+    let deleted: number;
+    do {
+      const expired = query(locationsRef(trackingId), where('timestamp', '<', before), limit(WRITE_BATCH_SIZE));
+      const snapshot = await getDocs(expired);
+      deleted = snapshot.size;
+      if (deleted === 0) break;
+      const batch = writeBatch(db);
+      snapshot.docs.forEach((d) => batch.delete(d.ref));
+      await batch.commit();
+      removed += deleted;
+    } while (deleted === WRITE_BATCH_SIZE);
+
+    // Legacy trackers may still hold expired fixes in their embedded array
+    const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
+    const trackerDoc = await getDoc(trackerRef);
+    const embedded: LocationData[] = trackerDoc.exists() ? trackerDoc.data().locations || [] : [];
+    const kept = embedded.filter((loc) => !isExpiredLocation(loc, before));
+    if (kept.length < embedded.length) {
+      await updateDoc(trackerRef, { locations: kept, updatedAt: serverTimestamp() });
+      removed += embedded.length - kept.length;
+    }
+    // The TTL policy deletes expired fixes on its own, so `removed` is usually 0;
+    // the summary still copies the oldest and latest fix and must expire with them.
+    // Trackers written before summaries existed get theirs here too.
+    const summary = trackerDoc.exists() ? trackerDoc.data().summary as TrackerSummary | undefined : undefined;
+    if (summary && summary.lastTimestamp < before) {
+      await updateDoc(trackerRef, { summary: deleteField() });
+    } else if (removed > 0 || (trackerDoc.exists() && !summary) || (summary && summary.firstTimestamp < before)) {
+      await rebuildSummaryInFirebase(trackingId);
+    }
+    return removed;
+  } catch (error) {
+    console.error('Error pruning locations:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Get the signed-in user's account-wide retention default
+export async function getDefaultRetentionFromFirebase(): Promise<RetentionPolicy | null> {
+  const user = auth.currentUser;
+  if (!user) return null;
+  try {
+    const snapshot = await getDoc(doc(db, USERS_COLLECTION, user.uid));
+    const retention = snapshot.exists() ? snapshot.data().retentionDefault : undefined;
+    return isRetentionPolicy(retention) ? retention : null;
+  } catch (error) {
+    console.error('Error getting retention default:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Save the signed-in user's account-wide retention default
+export async function setDefaultRetentionInFirebase(policy: RetentionPolicy): Promise<boolean> {
+  const user = auth.currentUser;
+  if (!user) {
+    console.warn('Skipping Firestore update: waiting for user authentication');
+    return false;
+  }
+  try {
+    await setDoc(doc(db, USERS_COLLECTION, user.uid), {
+      retentionDefault: policy,
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+
+    // Copy the default onto each tracker and re-stamp the fixes it now governs
+    const owned = await getDocs(query(collection(db, TRACKERS_COLLECTION), where('userId', '==', user.uid)));
+    for (const trackerDoc of owned.docs) {
+      await updateDoc(trackerDoc.ref, { defaultRetention: policy, updatedAt: serverTimestamp() });
+      if (!isRetentionPolicy(trackerDoc.data().retention)) {
+        await restampLocationExpiry(trackerDoc.id, policy);
+      }
+    }
+    return true;
+  } catch (error) {
+    console.error('Error saving retention default:', error);
+    throw toStorageError(error);
+  }
+}
+
 // === TRACKER OPERATIONS ===
 
-// Get all trackers for the current user
-export async function getTrackersFromFirebase(): Promise<Tracker[]> {
+// Get all trackers for the current user, each with a window of its location history
+export async function getTrackersFromFirebase(range: LocationRange = {}): Promise<Tracker[]> {
   const user = auth.currentUser;
   if (!user) {
     console.warn('Skipping Firestore read: waiting for user authentication');
@@ -70,33 +340,21 @@ export async function getTrackersFromFirebase(): Promise<Tracker[]> {
     const trackersRef = collection(db, TRACKERS_COLLECTION);
     const q = query(trackersRef, where('userId', '==', user.uid));
     const snapshot = await getDocs(q);
-    
-    const trackers = snapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        name: data.name || 'Unnamed Tracker',
-        created: timestampToString(data.created),
-        locations: data.locations || [],
-      } as Tracker;
-    });
 
-    // Sort in JavaScript instead of Firestore to avoid requiring a composite index
-    trackers.sort((a, b) => {
-      const dateA = new Date(a.created).getTime();
-      const dateB = new Date(b.created).getTime();
-      return dateB - dateA; // Newest first
-    });
+    const trackers = await Promise.all(snapshot.docs.map(async (doc) => {
+      const data = doc.data();
+      return toTracker(doc.id, data, await readLocations(doc.id, data, range));
+    }));
 
-    return trackers;
+    return sortNewestFirst(trackers);
   } catch (error) {
     console.error('Error getting trackers:', error);
-    throw error;
+    throw toStorageError(error);
   }
 }
 
-// Get a specific tracker by ID
-export async function getTrackerFromFirebase(trackingId: string): Promise<Tracker | null> {
+// Get a specific tracker by ID with a window of its location history
+export async function getTrackerFromFirebase(trackingId: string, range: LocationRange = {}): Promise<Tracker | null> {
   try {
     const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
     const snapshot = await getDoc(trackerRef);
@@ -106,15 +364,10 @@ export async function getTrackerFromFirebase(trackingId: string): Promise<Tracke
     }
     
     const data = snapshot.data();
-    return {
-      id: snapshot.id,
-      name: data.name || 'Unnamed Tracker',
-      created: timestampToString(data.created),
-      locations: data.locations || [],
-    } as Tracker;
+    return toTracker(snapshot.id, data, await readLocations(snapshot.id, data, range));
   } catch (error) {
     console.error('Error getting tracker:', error);
-    throw error;
+    throw toStorageError(error);
   }
 }
 
@@ -127,12 +380,20 @@ export async function createTrackerInFirebase(name: string, customId?: string):
   }
   try {
     const trackerData = createTrackerData(name, user.uid);
+    const accountDefault = await getDefaultRetentionFromFirebase().catch(() => null);
+    if (accountDefault) trackerData.defaultRetention = accountDefault;
     
     let docRef;
     if (customId) {
-      // Use custom ID
-      docRef = doc(db, TRACKERS_COLLECTION, customId);
-      await setDoc(docRef, trackerData);
+      // Use custom ID, without overwriting a tracker that already holds it
+      const customRef = doc(db, TRACKERS_COLLECTION, customId);
+      docRef = customRef;
+      await runTransaction(db, async (transaction) => {
+        if ((await transaction.get(customRef)).exists()) {
+          throw new StorageError('already-exists', `Tracker ${customId} already exists`);
+        }
+        transaction.set(customRef, trackerData);
+      });
     } else {
       // Auto-generate ID
       docRef = await addDoc(collection(db, TRACKERS_COLLECTION), trackerData);
@@ -146,7 +407,7 @@ export async function createTrackerInFirebase(name: string, customId?: string):
     };
   } catch (error) {
     console.error('Error creating tracker:', error);
-    throw error;
+    throw toStorageError(error);
   }
 }
 
@@ -168,8 +429,7 @@ export async function getOrCreateTrackerInFirebase(trackingId: string, name: str
   } catch (error) {
     // If we get a permission error on read, the tracker likely exists but is owned by
     // an authenticated user. We can still attempt to add locations via update.
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('permission') || errorMessage.includes('PERMISSION_DENIED')) {
+    if (toStorageError(error).code === 'permission-denied') {
       // Return a minimal tracker object so location updates can proceed
       return {
         id: trackingId,
@@ -179,7 +439,7 @@ export async function getOrCreateTrackerInFirebase(trackingId: string, name: str
       };
     }
     console.error('Error getting or creating tracker:', error);
-    throw error;
+    throw toStorageError(error);
   }
 }
 
@@ -207,31 +467,245 @@ export async function addLocationToTrackerInFirebase(trackingId: string, locatio
     sanitizedLocation.ip = location.ip;
   }
 
+  if (location.id) {
+    sanitizedLocation.id = location.id;
+  }
+
+  if (location.sessionId && location.seq !== undefined) {
+    sanitizedLocation.sessionId = location.sessionId;
+    sanitizedLocation.seq = location.seq;
+  }
+
   const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
+  // Keyed by the client ID when there is one, so a retried write lands on the same document
+  const locationRef = location.id ? doc(locationsRef(trackingId), location.id) : doc(locationsRef(trackingId));
 
   try {
-    // Try to update the existing tracker directly
-    await updateDoc(trackerRef, {
-      locations: arrayUnion(sanitizedLocation),
-      updatedAt: serverTimestamp(),
+    // Link holders may not write the summary; bumping updatedAt in the same
+    // transaction tells the owner's dashboard there is a fix to fold in
+    await runTransaction(db, async (transaction) => {
+      const trackerDoc = await transaction.get(trackerRef);
+      // A retried write of an already stored point must not be stored twice
+      if (location.id && (await transaction.get(locationRef)).exists()) return;
+
+      const expireAt = expireAtFor(location, trackerRetention(trackerDoc.data()));
+      if (trackerDoc.exists()) {
+        transaction.update(trackerRef, { updatedAt: serverTimestamp() });
+      } else {
+        // The tracker doesn't exist yet, so create it as a shared tracker
+        transaction.set(trackerRef, createTrackerData('Shared Tracker'));
+      }
+      transaction.set(locationRef, { ...sanitizedLocation, expireAt, receivedAt: serverTimestamp() });
     });
     return true;
   } catch (error) {
-    // If the document doesn't exist, create it with the location data
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    if (errorMessage.includes('No document to update') || errorMessage.includes('NOT_FOUND')) {
-      try {
-        const data = createTrackerData('Shared Tracker');
-        data.locations = [sanitizedLocation];
-        await setDoc(trackerRef, data);
-        return true;
-      } catch (createError) {
-        console.error('Error creating tracker with location:', createError);
-        throw createError;
+    console.error('Error adding location:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Add many fixes to a tracker at once (owner only), skipping any it already holds.
+// Returns the number of fixes written.
+export async function importLocationsToFirebase(trackingId: string, locations: LocationData[]): Promise<number> {
+  if (!isAuthenticated()) {
+    console.warn('Skipping Firestore import: waiting for user authentication');
+    return 0;
+  }
+  if (locations.length === 0) return 0;
+  try {
+    // Only stored fixes inside the imported time span can be duplicates
+    const timestamps = locations.map((loc) => loc.timestamp).sort();
+    const overlapping = query(
+      locationsRef(trackingId),
+      where('timestamp', '>=', timestamps[0]),
+      where('timestamp', '<=', timestamps[timestamps.length - 1])
+    );
+    const [trackerDoc, snapshot] = await Promise.all([
+      getDoc(doc(db, TRACKERS_COLLECTION, trackingId)),
+      getDocs(overlapping),
+    ]);
+    const existing = [
+      ...(trackerDoc.exists() ? (trackerDoc.data().locations as LocationData[] | undefined) || [] : []),
+      ...snapshot.docs.map((d) => toLocation(d.data())),
+    ];
+    const added = excludeExisting(existing, locations).map((loc) => ({ ...loc, id: loc.id || generateLocationId() }));
+    const policy = trackerRetention(trackerDoc.data());
+    // One slot per batch is kept for bumping updatedAt, so the rebuild below
+    // marks these fixes as folded in
+    const perBatch = WRITE_BATCH_SIZE - 1;
+
+    for (let i = 0; i < added.length; i += perBatch) {
+      const batch = writeBatch(db);
+      batch.update(trackerDoc.ref, { updatedAt: serverTimestamp() });
+      added.slice(i, i + perBatch).forEach((loc) => {
+        batch.set(doc(locationsRef(trackingId), loc.id), {
+          ...JSON.parse(JSON.stringify(loc)),
+          expireAt: expireAtFor(loc, policy),
+          receivedAt: serverTimestamp(),
+        });
+      });
+      await batch.commit();
+    }
+    if (added.length > 0) {
+      await rebuildSummaryInFirebase(trackingId);
+    }
+    return added.length;
+  } catch (error) {
+    console.error('Error importing locations:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Fold a tracker's whole history into a summary, oldest first, reading the
+// subcollection a page at a time. Legacy embedded fixes are merged in by timestamp.
+async function summarizeStoredHistory(trackingId: string, embedded: LocationData[]): Promise<TrackerSummary | undefined> {
+  const legacy = dedupeLocations(embedded).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const legacyIds = new Set(legacy.map((loc) => loc.id).filter(Boolean));
+  let summary: TrackerSummary | undefined;
+  let next = 0;
+
+  await forEachLocationPage(trackingId, (docs) => {
+    for (const d of docs) {
+      const location = toLocation(d.data());
+      // Fixes migrated out of the embedded array are counted once
+      if (location.id && legacyIds.has(location.id)) continue;
+      while (next < legacy.length && legacy[next].timestamp <= location.timestamp) {
+        summary = extendSummary(summary, legacy[next++]);
       }
+      summary = extendSummary(summary, location);
     }
-    console.error('Error adding location:', error);
-    throw error;
+  });
+  while (next < legacy.length) {
+    summary = extendSummary(summary, legacy[next++]);
+  }
+  return summary;
+}
+
+// A summary update that keeps losing to new fixes gives up after this many
+// tries; the next fix or prune tries again
+const MAX_SUMMARY_ATTEMPTS = 3;
+
+function sameTimestamp(a: Timestamp | undefined, b: Timestamp | undefined): boolean {
+  return a && b ? a.isEqual(b) : a === b;
+}
+
+// Save a summary computed from the tracker document `read`, in a transaction
+// and only if the tracker is unchanged since (every stored fix bumps updatedAt).
+// summaryThrough records that every fix up to that updatedAt is folded in.
+// Returns false if the tracker changed meanwhile.
+async function saveSummary(
+  trackerRef: ReturnType<typeof doc>,
+  read: DocumentData,
+  summary: TrackerSummary | undefined
+): Promise<boolean> {
+  return runTransaction(db, async (transaction) => {
+    const current = await transaction.get(trackerRef);
+    if (!current.exists()) return true;
+    if (!sameTimestamp(current.data().updatedAt, read.updatedAt)) return false;
+    const update: Record<string, unknown> = { summaryThrough: read.updatedAt ?? deleteField() };
+    if (summary || current.data().summary) update.summary = summary ?? deleteField();
+    transaction.update(trackerRef, update);
+    return true;
+  });
+}
+
+// Recompute a tracker's summary from its full stored history (owner only).
+// Used after pruning and importing, and for trackers written before summaries
+// existed.
+export async function rebuildSummaryInFirebase(trackingId: string): Promise<TrackerSummary | undefined> {
+  const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
+  try {
+    for (let attempt = 1; attempt <= MAX_SUMMARY_ATTEMPTS; attempt++) {
+      const trackerDoc = await getDoc(trackerRef);
+      if (!trackerDoc.exists()) return undefined;
+      const summary = await summarizeStoredHistory(trackingId, trackerDoc.data().locations || []);
+      if (await saveSummary(trackerRef, trackerDoc.data(), summary)) return summary;
+    }
+    console.warn(`Tracker ${trackingId} kept receiving fixes; summary rebuild skipped`);
+    return undefined;
+  } catch (error) {
+    console.error('Error rebuilding tracker summary:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Whether fixes have been stored since the summary was last brought up to date
+function hasUnfoldedLocations(data: DocumentData): boolean {
+  const updatedAt = data.updatedAt as Timestamp | undefined;
+  const through = data.summaryThrough as Timestamp | undefined;
+  return updatedAt instanceof Timestamp && (!through || updatedAt.toMillis() > through.toMillis());
+}
+
+// Fold the fixes received since the last update into the summary (owner only).
+// Only those fixes are read, so this stays cheap however long the history is.
+export async function foldNewLocationsInFirebase(trackingId: string): Promise<void> {
+  const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
+  try {
+    for (let attempt = 1; attempt <= MAX_SUMMARY_ATTEMPTS; attempt++) {
+      const trackerDoc = await getDoc(trackerRef);
+      if (!trackerDoc.exists()) return;
+      const data = trackerDoc.data();
+      const through = data.summaryThrough as Timestamp | undefined;
+      const received = await getDocs(query(
+        locationsRef(trackingId),
+        where('receivedAt', '>', through ?? Timestamp.fromMillis(0)),
+        orderBy('receivedAt', 'asc')
+      ));
+
+      // With nothing received (e.g. only metadata changed) this just moves summaryThrough on
+      let summary = data.summary as TrackerSummary | undefined;
+      received.docs.forEach((d) => {
+        summary = extendSummary(summary, toLocation(d.data()));
+      });
+      if (await saveSummary(trackerRef, data, summary)) return;
+    }
+    console.warn(`Tracker ${trackingId} kept receiving fixes; summary update skipped`);
+  } catch (error) {
+    console.error('Error updating tracker summary:', error);
+    throw toStorageError(error);
+  }
+}
+
+// Update a tracker's editable metadata (owner only)
+export async function updateTrackerInFirebase(trackingId: string, updates: TrackerUpdate): Promise<boolean> {
+  if (!isAuthenticated()) {
+    console.warn('Skipping Firestore update: waiting for user authentication');
+    return false;
+  }
+
+  // Only send fields that were provided; Firestore rejects undefined values
+  const data: Record<string, unknown> = { updatedAt: serverTimestamp() };
+  if (updates.name !== undefined) data.name = updates.name.trim() || 'Unnamed Tracker';
+  if (updates.description !== undefined) data.description = updates.description.trim();
+  if (updates.tags !== undefined) data.tags = updates.tags;
+  if (updates.color !== undefined) data.color = updates.color;
+  if (updates.status !== undefined) data.status = updates.status;
+  if (updates.expiresAt === null) {
+    data.expiresAt = deleteField();
+  } else if (updates.expiresAt !== undefined) {
+    // Stored as a Timestamp so security rules can compare it with request.time
+    data.expiresAt = Timestamp.fromDate(new Date(updates.expiresAt));
+  }
+  if (updates.retention === null) {
+    data.retention = deleteField();
+  } else if (updates.retention !== undefined) {
+    data.retention = updates.retention;
+  }
+
+  try {
+    const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
+    // Re-stamping rewrites every fix, so it only runs when the effective policy
+    // changes; clearing the tracker's own policy falls back to the account default
+    const stored = updates.retention !== undefined ? (await getDoc(trackerRef)).data() : undefined;
+    await updateDoc(trackerRef, data);
+    if (stored) {
+      const policy = trackerRetention({ ...stored, retention: updates.retention ?? undefined });
+      if (policy !== trackerRetention(stored)) await restampLocationExpiry(trackingId, policy);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error updating tracker:', error);
+    throw toStorageError(error);
   }
 }
 
@@ -242,12 +716,14 @@ export async function deleteTrackerFromFirebase(trackingId: string): Promise<boo
     return false;
   }
   try {
+    // Subcollections are not removed with their parent, so clear the history first
+    await deleteAllLocations(trackingId);
     const trackerRef = doc(db, TRACKERS_COLLECTION, trackingId);
     await deleteDoc(trackerRef);
     return true;
   } catch (error) {
     console.error('Error deleting tracker:', error);
-    throw error;
+    throw toStorageError(error);
   }
 }
 
@@ -370,10 +846,12 @@ export async function deleteUserFromFirebase(userId: string): Promise<boolean> {
 
 // === REAL-TIME LISTENERS ===
 
-// Subscribe to real-time updates for all trackers owned by the current user
+// Subscribe to real-time updates for all trackers owned by the current user.
+// Each tracker's history is streamed through its own listener limited to `range`.
 export function subscribeToTrackers(
   callback: (trackers: Tracker[]) => void,
-  onError?: (error: Error) => void
+  onError?: (error: Error) => void,
+  range: LocationRange = {}
 ): () => void {
   const user = auth.currentUser;
   if (!user) {
@@ -384,32 +862,94 @@ export function subscribeToTrackers(
   const trackersRef = collection(db, TRACKERS_COLLECTION);
   const q = query(trackersRef, where('userId', '==', user.uid));
 
+  const trackerData = new Map<string, DocumentData>();
+  const storedLocations = new Map<string, LocationData[]>();
+  const locationListeners = new Map<string, () => void>();
+
+  const emit = () => {
+    const trackers = Array.from(trackerData.entries()).map(([id, data]) =>
+      toTracker(id, data, mergeLocations(data, storedLocations.get(id) || [], range))
+    );
+    callback(sortNewestFirst(trackers));
+  };
+
+  const handleError = (error: Error) => {
+    console.error('Real-time tracker subscription error:', error);
+    if (onError) onError(toStorageError(error));
+  };
+
   const unsubscribe = onSnapshot(
     q,
     (snapshot) => {
-      const trackers = snapshot.docs.map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          name: data.name || 'Unnamed Tracker',
-          created: timestampToString(data.created),
-          locations: data.locations || [],
-        } as Tracker;
-      });
+      snapshot.docChanges().forEach((change) => {
+        const id = change.doc.id;
+        if (change.type === 'removed') {
+          trackerData.delete(id);
+          storedLocations.delete(id);
+          locationListeners.get(id)?.();
+          locationListeners.delete(id);
+          return;
+        }
 
-      trackers.sort((a, b) => {
-        const dateA = new Date(a.created).getTime();
-        const dateB = new Date(b.created).getTime();
-        return dateB - dateA;
+        trackerData.set(id, change.doc.data());
+        if (!locationListeners.has(id)) {
+          locationListeners.set(id, onSnapshot(
+            locationsQuery(id, range),
+            (locationSnapshot) => {
+              storedLocations.set(id, locationSnapshot.docs.map((d) => toLocation(d.data())));
+              emit();
+            },
+            handleError
+          ));
+        }
       });
 
-      callback(trackers);
+      emit();
+    },
+    handleError
+  );
+
+  return () => {
+    unsubscribe();
+    locationListeners.forEach((stop) => stop());
+    locationListeners.clear();
+  };
+}
+
+// Subscribe to the current user's trackers with their summaries but no history.
+// Fixes stored by link holders are folded into the summary as they arrive;
+// trackers written before summaries existed get one from the retention prune job.
+export function subscribeToTrackerSummaries(
+  callback: (trackers: Tracker[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const user = auth.currentUser;
+  if (!user) {
+    console.warn('Skipping Firestore subscription: waiting for user authentication');
+    return () => {};
+  }
+
+  const q = query(collection(db, TRACKERS_COLLECTION), where('userId', '==', user.uid));
+  const folding = new Set<string>();
+
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const trackers = snapshot.docs.map((d) => {
+        const data = d.data();
+        if (hasUnfoldedLocations(data) && !folding.has(d.id)) {
+          folding.add(d.id);
+          foldNewLocationsInFirebase(d.id)
+            .catch(() => {})
+            .finally(() => folding.delete(d.id));
+        }
+        return toTracker(d.id, data, []);
+      });
+      callback(sortNewestFirst(trackers));
     },
     (error) => {
       console.error('Real-time tracker subscription error:', error);
-      if (onError) onError(error);
+      if (onError) onError(toStorageError(error));
     }
   );
-
-  return unsubscribe;
 }
@@ -1,7 +1,7 @@
 // Firebase configuration and initialization
 import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
-import { getFirestore, Firestore } from 'firebase/firestore';
-import { getAuth, Auth } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
+import { getAuth, connectAuthEmulator, Auth } from 'firebase/auth';
 
 // Firebase configuration
 // These values are safe to expose in client-side code as Firebase security rules protect the data
@@ -47,6 +47,19 @@ try {
   
   // Initialize Auth
   auth = getAuth(app);
+
+  // Optionally talk to the local Firebase emulators (e.g. to exercise the retention prune job)
+  const firestoreEmulator = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+  if (firestoreEmulator) {
+    const [host, port] = firestoreEmulator.split(':');
+    connectFirestoreEmulator(db, host, Number(port) || 8080);
+    console.log('🧪 Using Firestore emulator at', firestoreEmulator);
+  }
+  const authEmulator = process.env.NEXT_PUBLIC_AUTH_EMULATOR_HOST;
+  if (authEmulator) {
+    connectAuthEmulator(auth, `http://${authEmulator}`, { disableWarnings: true });
+    console.log('🧪 Using Auth emulator at', authEmulator);
+  }
   
   console.log('✅ Firebase initialized successfully');
   console.log('📱 Project ID:', firebaseConfig.projectId);
@@ -0,0 +1,111 @@
+// Fleet-wide figures for the dashboard overview. Each figure keeps the IDs of
+// the trackers behind it so the list can be filtered down to them.
+import type { LocationData, Tracker } from './storage';
+import type { Geofence } from './geofence-context';
+import { pathDistance } from './geo';
+import { NoiseFilterSettings, filterNoise } from './noise-filter';
+import { detectGeofenceEvents } from './geofence-events';
+import { getLatestLocation } from './tracker-summary';
+
+export type SignalStatus = 'live' | 'idle' | 'offline';
+
+// Matches the "● Live" badge on the dashboard and map
+export const LIVE_WINDOW_MS = 60000;
+// Silent for longer than this (or never reported) counts as offline
+export const OFFLINE_AFTER_MS = 60 * 60 * 1000;
+
+export interface FleetStats {
+  status: Record<SignalStatus, string[]>;
+  distanceTodayMeters: number;
+  distanceWeekMeters: number;
+  movedToday: string[];
+  movedThisWeek: string[];
+  geofenceEventsToday: number;
+  geofenceEventTrackers: string[];
+  // Tracker that has gone longest without a fix, among those that ever sent one
+  oldestSignal: { trackerId: string; timestamp: string } | null;
+  // Trackers whose latest fix is less accurate than the noise filter accepts
+  poorAccuracy: string[];
+}
+
+export function startOfToday(now: number): Date {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Weeks start on Monday
+export function startOfWeek(now: number): Date {
+  const today = startOfToday(now);
+  const daysSinceMonday = (today.getDay() + 6) % 7;
+  return new Date(today.getFullYear(), today.getMonth(), today.getDate() - daysSinceMonday);
+}
+
+export function signalStatus(tracker: Tracker, now: number): SignalStatus {
+  const latest = getLatestLocation(tracker);
+  if (!latest) return 'offline';
+  const age = now - new Date(latest.timestamp).getTime();
+  if (age < LIVE_WINDOW_MS) return 'live';
+  return age < OFFLINE_AFTER_MS ? 'idle' : 'offline';
+}
+
+/**
+ * Compute the overview for a set of trackers. `weekHistories` holds each
+ * tracker's fixes since the start of the week; trackers missing from it are
+ * treated as not having moved.
+ */
+export function computeFleetStats(
+  trackers: Tracker[],
+  weekHistories: Record<string, LocationData[]>,
+  geofences: Geofence[],
+  noiseFilter: NoiseFilterSettings,
+  now: number
+): FleetStats {
+  const todayStart = startOfToday(now).getTime();
+  const stats: FleetStats = {
+    status: { live: [], idle: [], offline: [] },
+    distanceTodayMeters: 0,
+    distanceWeekMeters: 0,
+    movedToday: [],
+    movedThisWeek: [],
+    geofenceEventsToday: 0,
+    geofenceEventTrackers: [],
+    oldestSignal: null,
+    poorAccuracy: [],
+  };
+
+  trackers.forEach((tracker) => {
+    stats.status[signalStatus(tracker, now)].push(tracker.id);
+
+    const latest = getLatestLocation(tracker);
+    if (latest) {
+      if (!stats.oldestSignal || latest.timestamp < stats.oldestSignal.timestamp) {
+        stats.oldestSignal = { trackerId: tracker.id, timestamp: latest.timestamp };
+      }
+      if (noiseFilter.maxAccuracyMeters > 0 && latest.accuracy > noiseFilter.maxAccuracyMeters) {
+        stats.poorAccuracy.push(tracker.id);
+      }
+    }
+
+    const week = weekHistories[tracker.id] ?? [];
+    const today = week.filter((loc) => new Date(loc.timestamp).getTime() >= todayStart);
+    const weekDistance = pathDistance(filterNoise(week, noiseFilter));
+    const todayDistance = pathDistance(filterNoise(today, noiseFilter));
+    stats.distanceWeekMeters += weekDistance;
+    stats.distanceTodayMeters += todayDistance;
+    if (weekDistance > 0) stats.movedThisWeek.push(tracker.id);
+    if (todayDistance > 0) stats.movedToday.push(tracker.id);
+
+    // The fix before midnight is included so a crossing right after it is seen
+    const fences = geofences.filter((g) => g.trackerId === tracker.id);
+    if (fences.length > 0 && today.length > 0) {
+      const lead = week.length > today.length ? [week[week.length - today.length - 1]] : [];
+      const events = detectGeofenceEvents([...lead, ...today], fences);
+      if (events.length > 0) {
+        stats.geofenceEventsToday += events.length;
+        stats.geofenceEventTrackers.push(tracker.id);
+      }
+    }
+  });
+
+  return stats;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData, Tracker } from '../storage';
+import type { Geofence } from '../geofence-context';
+import { geofenceFeature, serializeGeoJSON, trackersToGeoJSON } from './geojson';
+
+const fix = (id: string, latitude: number, longitude: number, timestamp: string): LocationData => ({
+  id,
+  latitude,
+  longitude,
+  accuracy: 8,
+  timestamp,
+});
+
+const history = [
+  fix('b', 51.51, -0.13, '2024-03-05T08:01:00.000Z'),
+  fix('a', 51.5, -0.12, '2024-03-05T08:00:00.000Z'),
+];
+
+const tracker: Tracker = {
+  id: 'track_1',
+  name: 'Van',
+  created: '2024-03-01T00:00:00.000Z',
+  color: '#ff8800',
+  locations: history,
+};
+
+const geofence: Geofence = {
+  id: 'fence_1',
+  trackerId: 'track_1',
+  centerLat: 51.5,
+  centerLng: -0.12,
+  radiusMeters: 200,
+  name: 'Depot',
+  createdAt: '2024-03-01T00:00:00.000Z',
+};
+
+describe('trackersToGeoJSON', () => {
+  it('builds a LineString of [longitude, latitude] positions in time order', () => {
+    const [track] = trackersToGeoJSON([tracker]).features;
+    expect(track.geometry).toEqual({ type: 'LineString', coordinates: [[-0.12, 51.5], [-0.13, 51.51]] });
+    expect(track.properties).toMatchObject({
+      kind: 'track',
+      color: '#ff8800',
+      startTime: '2024-03-05T08:00:00.000Z',
+      endTime: '2024-03-05T08:01:00.000Z',
+      pointCount: 2,
+    });
+  });
+
+  it('adds a Point per fix carrying its other fields', () => {
+    const points = trackersToGeoJSON([tracker]).features.filter((f) => f.geometry.type === 'Point');
+    expect(points.map((p) => p.id)).toEqual(['a', 'b']);
+    expect(points[0].properties).toEqual({
+      kind: 'fix',
+      trackerId: 'track_1',
+      id: 'a',
+      accuracy: 8,
+      timestamp: '2024-03-05T08:00:00.000Z',
+    });
+  });
+
+  it('leaves out the points when asked to', () => {
+    const { features } = trackersToGeoJSON([tracker], { includePoints: false });
+    expect(features.map((f) => f.geometry.type)).toEqual(['LineString']);
+  });
+
+  it('only includes geofences of the exported trackers', () => {
+    const { features } = trackersToGeoJSON([tracker], {
+      includePoints: false,
+      geofences: [geofence, { ...geofence, id: 'fence_2', trackerId: 'other' }],
+    });
+    expect(features.filter((f) => f.properties.kind === 'geofence').map((f) => f.id)).toEqual(['fence_1']);
+  });
+
+  it('has no features for a tracker without history', () => {
+    expect(trackersToGeoJSON([{ ...tracker, locations: [] }]).features).toEqual([]);
+  });
+});
+
+describe('geofenceFeature', () => {
+  it('is a closed polygon ring around the center', () => {
+    const feature = geofenceFeature(geofence);
+    if (feature.geometry.type !== 'Polygon') throw new Error('expected a polygon');
+    const [ring] = feature.geometry.coordinates;
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+    ring.forEach(([lng, lat]) => {
+      expect(Math.abs(lat - 51.5)).toBeLessThan(0.01);
+      expect(Math.abs(lng + 0.12)).toBeLessThan(0.01);
+    });
+  });
+});
+
+describe('serializeGeoJSON', () => {
+  it('round-trips through JSON', () => {
+    const collection = trackersToGeoJSON([tracker]);
+    expect(JSON.parse(serializeGeoJSON(collection))).toEqual(collection);
+  });
+});
@@ -0,0 +1,117 @@
+// GeoJSON (RFC 7946) FeatureCollections for trackers and geofences.
+// Returns plain objects so the map can render them directly; use
+// serializeGeoJSON for a file download or an API response.
+import type { LocationData, Tracker } from '../storage';
+import type { Geofence } from '../geofence-context';
+import { getTrackerColor } from '../tracker-color';
+import { geofenceRing } from '../geofence-shape';
+
+// GeoJSON positions are [longitude, latitude]
+export type Position = [number, number];
+
+export type Geometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'Polygon'; coordinates: Position[][] };
+
+export interface Feature<P = Record<string, unknown>> {
+  type: 'Feature';
+  id?: string;
+  geometry: Geometry;
+  properties: P;
+}
+
+export interface FeatureCollection<P = Record<string, unknown>> {
+  type: 'FeatureCollection';
+  features: Feature<P>[];
+}
+
+export interface GeoJSONOptions {
+  // Add a Point feature per fix alongside each tracker's LineString (default true)
+  includePoints?: boolean;
+  geofences?: Geofence[];
+}
+
+function position(loc: LocationData): Position {
+  return [loc.longitude, loc.latitude];
+}
+
+function trackFeatures(tracker: Tracker, includePoints: boolean): Feature[] {
+  const sorted = [...tracker.locations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const features: Feature[] = [];
+
+  if (sorted.length > 1) {
+    features.push({
+      type: 'Feature',
+      id: tracker.id,
+      geometry: { type: 'LineString', coordinates: sorted.map(position) },
+      properties: {
+        kind: 'track',
+        trackerId: tracker.id,
+        name: tracker.name,
+        color: getTrackerColor(tracker),
+        startTime: sorted[0].timestamp,
+        endTime: sorted[sorted.length - 1].timestamp,
+        pointCount: sorted.length,
+      },
+    });
+  }
+
+  if (includePoints) {
+    // Every LocationData field except the coordinates, which are the geometry
+    sorted.forEach(({ latitude, longitude, ...fields }) => {
+      features.push({
+        type: 'Feature',
+        ...(fields.id ? { id: fields.id } : {}),
+        geometry: { type: 'Point', coordinates: [longitude, latitude] },
+        properties: { kind: 'fix', trackerId: tracker.id, ...fields },
+      });
+    });
+  }
+
+  return features;
+}
+
+// A circular geofence as a Polygon feature
+export function geofenceFeature(geofence: Geofence): Feature {
+  return {
+    type: 'Feature',
+    id: geofence.id,
+    geometry: { type: 'Polygon', coordinates: [geofenceRing(geofence)] },
+    properties: {
+      kind: 'geofence',
+      trackerId: geofence.trackerId,
+      name: geofence.name,
+      centerLat: geofence.centerLat,
+      centerLng: geofence.centerLng,
+      radiusMeters: geofence.radiusMeters,
+      createdAt: geofence.createdAt,
+    },
+  };
+}
+
+export function geofencesToGeoJSON(geofences: Geofence[]): FeatureCollection {
+  return { type: 'FeatureCollection', features: geofences.map(geofenceFeature) };
+}
+
+/**
+ * Build a FeatureCollection with a LineString per tracker, a Point per fix and,
+ * optionally, Polygon features for the trackers' geofences
+ * @param trackers - Trackers with their loaded history in `locations`
+ * @param options - Whether to include per-fix points, and geofences to add
+ */
+export function trackersToGeoJSON(trackers: Tracker[], options: GeoJSONOptions = {}): FeatureCollection {
+  const { includePoints = true, geofences = [] } = options;
+  const ids = new Set(trackers.map((t) => t.id));
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...trackers.flatMap((tracker) => trackFeatures(tracker, includePoints)),
+      ...geofences.filter((g) => ids.has(g.trackerId)).map(geofenceFeature),
+    ],
+  };
+}
+
+export function serializeGeoJSON(collection: FeatureCollection): string {
+  return JSON.stringify(collection, null, 2);
+}
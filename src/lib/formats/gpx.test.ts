@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData, Tracker } from '../storage';
+import { GPX_SEGMENT_GAP_MS, serializeGPX, splitAtTimeGaps } from './gpx';
+
+const MINUTE = 60 * 1000;
+const START = Date.parse('2024-03-05T08:00:00.000Z');
+
+const fix = (minutes: number, accuracy = 5): LocationData => ({
+  latitude: 51.5 + minutes / 1000,
+  longitude: -0.12,
+  accuracy,
+  timestamp: new Date(START + minutes * MINUTE).toISOString(),
+});
+
+const tracker = (locations: LocationData[], overrides: Partial<Tracker> = {}): Tracker => ({
+  id: 'track_1',
+  name: 'Van',
+  created: '2024-03-01T00:00:00.000Z',
+  locations,
+  ...overrides,
+});
+
+describe('splitAtTimeGaps', () => {
+  it('keeps a steady history in one segment', () => {
+    const history = [fix(0), fix(1), fix(2)];
+    expect(splitAtTimeGaps(history)).toEqual([history]);
+  });
+
+  it('starts a new segment after a gap longer than the threshold', () => {
+    const segments = splitAtTimeGaps([fix(0), fix(1), fix(30), fix(31)]);
+    expect(segments.map((segment) => segment.length)).toEqual([2, 2]);
+    expect(segments[1][0]).toEqual(fix(30));
+  });
+
+  it('does not split at a gap of exactly the threshold', () => {
+    const gapMinutes = GPX_SEGMENT_GAP_MS / MINUTE;
+    expect(splitAtTimeGaps([fix(0), fix(gapMinutes)])).toHaveLength(1);
+  });
+
+  it('honours a custom gap', () => {
+    expect(splitAtTimeGaps([fix(0), fix(2), fix(4)], MINUTE)).toHaveLength(3);
+  });
+
+  it('returns no segments for an empty history', () => {
+    expect(splitAtTimeGaps([])).toEqual([]);
+  });
+});
+
+describe('serializeGPX', () => {
+  it('writes one track segment per recording stretch', () => {
+    const gpx = serializeGPX([tracker([fix(0), fix(1), fix(30)])]);
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(2);
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+  });
+
+  it('orders points by time even when the history is not', () => {
+    const gpx = serializeGPX([tracker([fix(2), fix(0), fix(1)])]);
+    const times = Array.from(gpx.matchAll(/<trkpt[^>]*>\s*<time>([^<]+)<\/time>/g), (m) => m[1]);
+    expect(times).toEqual([fix(0), fix(1), fix(2)].map((loc) => loc.timestamp));
+  });
+
+  it('writes ISO 8601 UTC timestamps', () => {
+    const offset = { ...fix(0), timestamp: '2024-03-05T10:00:00+02:00' };
+    expect(serializeGPX([tracker([offset])])).toContain('<time>2024-03-05T08:00:00.000Z</time>');
+  });
+
+  it('stores accuracy in the extension namespace', () => {
+    const gpx = serializeGPX([tracker([fix(0, 12.5)])]);
+    expect(gpx).toContain('xmlns:geotracker="urn:geotracker:gpx:1"');
+    expect(gpx).toContain('<extensions><geotracker:accuracy>12.5</geotracker:accuracy></extensions>');
+  });
+
+  it('escapes names and descriptions', () => {
+    const gpx = serializeGPX([tracker([fix(0)], { name: 'Tom & Jerry <van>', description: '"quoted"' })]);
+    expect(gpx).toContain('<name>Tom &amp; Jerry &lt;van&gt;</name>');
+    expect(gpx).toContain('<desc>&quot;quoted&quot;</desc>');
+    expect(gpx).not.toContain('Tom & Jerry');
+  });
+
+  it('writes one track per tracker', () => {
+    const gpx = serializeGPX([tracker([fix(0)]), tracker([fix(0)], { id: 'track_2', name: 'Car' })]);
+    expect(gpx.match(/<trk>/g)).toHaveLength(2);
+    expect(gpx).toContain('<name>2 trackers</name>');
+  });
+});
@@ -0,0 +1,131 @@
+// GPX 1.1 reading and writing
+import type { LocationData, Tracker } from '../storage';
+import { escapeXML } from './xml';
+
+// Namespace for our own per-point extensions (currently just accuracy)
+const EXTENSION_NS = 'urn:geotracker:gpx:1';
+
+// Fixes further apart than this start a new <trkseg>, so GIS tools do not draw
+// a straight line across a gap in recording
+export const GPX_SEGMENT_GAP_MS = 10 * 60 * 1000;
+
+export interface GPXPoint {
+  latitude: number;
+  longitude: number;
+  // Raw <time> text; validated by the caller
+  time: string | null;
+  elevation?: number;
+  // Horizontal accuracy in meters, from our export extension
+  accuracy?: number;
+}
+
+export interface GPXTrack {
+  name: string;
+  points: GPXPoint[];
+}
+
+function childText(parent: Element, tag: string): string | null {
+  const child = Array.from(parent.children).find((el) => el.localName === tag);
+  return child?.textContent?.trim() || null;
+}
+
+function readPoint(el: Element): GPXPoint {
+  const elevation = childText(el, 'ele');
+  const accuracy = el.getElementsByTagNameNS(EXTENSION_NS, 'accuracy')[0]?.textContent?.trim();
+  return {
+    latitude: parseFloat(el.getAttribute('lat') ?? ''),
+    longitude: parseFloat(el.getAttribute('lon') ?? ''),
+    time: childText(el, 'time'),
+    ...(elevation !== null ? { elevation: parseFloat(elevation) } : {}),
+    ...(accuracy ? { accuracy: parseFloat(accuracy) } : {}),
+  };
+}
+
+// Read every track (all segments joined) and route in a GPX document.
+// Loose waypoints are gathered into one extra track.
+export function parseGPX(text: string): GPXTrack[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'gpx') {
+    throw new Error('Not a valid GPX file');
+  }
+
+  const root = doc.documentElement;
+  const fileName = Array.from(root.getElementsByTagNameNS('*', 'metadata'))
+    .map((metadata) => childText(metadata, 'name'))
+    .find(Boolean);
+  const tracks: GPXTrack[] = [];
+
+  const collect = (tag: string, pointTag: string) => {
+    Array.from(root.getElementsByTagNameNS('*', tag)).forEach((el, index) => {
+      tracks.push({
+        name: childText(el, 'name') || fileName || `${tag === 'trk' ? 'Track' : 'Route'} ${index + 1}`,
+        points: Array.from(el.getElementsByTagNameNS('*', pointTag)).map(readPoint),
+      });
+    });
+  };
+  collect('trk', 'trkpt');
+  collect('rte', 'rtept');
+
+  const waypoints = Array.from(root.children).filter((el) => el.localName === 'wpt');
+  if (waypoints.length > 0) {
+    tracks.push({ name: fileName || 'Waypoints', points: waypoints.map(readPoint) });
+  }
+
+  return tracks;
+}
+
+// Split a history (oldest first) wherever consecutive fixes are more than gapMs apart
+export function splitAtTimeGaps(locations: LocationData[], gapMs: number = GPX_SEGMENT_GAP_MS): LocationData[][] {
+  const segments: LocationData[][] = [];
+  let previous: number | null = null;
+  for (const loc of locations) {
+    const time = new Date(loc.timestamp).getTime();
+    if (previous === null || time - previous > gapMs) {
+      segments.push([]);
+    }
+    segments[segments.length - 1].push(loc);
+    previous = time;
+  }
+  return segments;
+}
+
+function trackPoint(loc: LocationData): string {
+  return [
+    `      <trkpt lat="${loc.latitude}" lon="${loc.longitude}">`,
+    `        <time>${new Date(loc.timestamp).toISOString()}</time>`,
+    `        <extensions><geotracker:accuracy>${loc.accuracy}</geotracker:accuracy></extensions>`,
+    '      </trkpt>',
+  ].join('\n');
+}
+
+function trackElement(tracker: Tracker, gapMs: number): string {
+  const sorted = [...tracker.locations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const lines = ['  <trk>', `    <name>${escapeXML(tracker.name)}</name>`];
+  if (tracker.description) lines.push(`    <desc>${escapeXML(tracker.description)}</desc>`);
+  for (const segment of splitAtTimeGaps(sorted, gapMs)) {
+    lines.push('    <trkseg>', ...segment.map(trackPoint), '    </trkseg>');
+  }
+  lines.push('  </trk>');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize trackers as a GPX 1.1 document, one <trk> per tracker
+ * @param trackers - Trackers with their loaded history in `locations`
+ * @param gapMs - Time gap that starts a new track segment
+ * @returns GPX XML text
+ */
+export function serializeGPX(trackers: Tracker[], gapMs: number = GPX_SEGMENT_GAP_MS): string {
+  const name = trackers.length === 1 ? trackers[0].name : `${trackers.length} trackers`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="GeoTracker" xmlns="http://www.topografix.com/GPX/1/1" xmlns:geotracker="${EXTENSION_NS}">`,
+    '  <metadata>',
+    `    <name>${escapeXML(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    ...trackers.map((tracker) => trackElement(tracker, gapMs)),
+    '</gpx>',
+    '',
+  ].join('\n');
+}
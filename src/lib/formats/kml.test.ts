@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData, Tracker } from '../storage';
+import type { Geofence } from '../geofence-context';
+import { serializeKML } from './kml';
+
+const fix = (latitude: number, longitude: number, timestamp: string): LocationData => ({
+  latitude,
+  longitude,
+  accuracy: 8,
+  timestamp,
+});
+
+const tracker = (locations: LocationData[], overrides: Partial<Tracker> = {}): Tracker => ({
+  id: 'track_1',
+  name: 'Van',
+  created: '2024-03-01T00:00:00.000Z',
+  color: '#ff8800',
+  locations,
+  ...overrides,
+});
+
+const geofence = (trackerId: string): Geofence => ({
+  id: 'fence_1',
+  trackerId,
+  centerLat: 51.5,
+  centerLng: -0.12,
+  radiusMeters: 200,
+  name: 'Depot',
+  createdAt: '2024-03-01T00:00:00.000Z',
+});
+
+const history = [
+  fix(51.51, -0.13, '2024-03-05T08:01:00.000Z'),
+  fix(51.5, -0.12, '2024-03-05T08:00:00.000Z'),
+];
+
+describe('serializeKML', () => {
+  it('writes the path as longitude,latitude,altitude in time order', () => {
+    const kml = serializeKML([tracker(history)]);
+    expect(kml).toContain('<coordinates>-0.12,51.5,0 -0.13,51.51,0</coordinates>');
+  });
+
+  it('marks the latest fix with its time', () => {
+    // Loaded histories are oldest first
+    const kml = serializeKML([tracker([...history].reverse())]);
+    expect(kml).toContain('<TimeStamp><when>2024-03-05T08:01:00.000Z</when></TimeStamp>');
+    expect(kml).toContain('<Point><coordinates>-0.13,51.51,0</coordinates></Point>');
+  });
+
+  it('leaves out the path when there is a single fix', () => {
+    const kml = serializeKML([tracker([history[0]])]);
+    expect(kml).not.toContain('<LineString>');
+    expect(kml).toContain('<Point>');
+  });
+
+  it('converts tracker colors to aabbggrr', () => {
+    const kml = serializeKML([tracker(history)]);
+    expect(kml).toContain('<LineStyle><color>ff0088ff</color><width>4</width></LineStyle>');
+    expect(kml).toContain('<PolyStyle><color>400088ff</color></PolyStyle>');
+  });
+
+  it('draws only the geofences of the exported trackers, as closed rings', () => {
+    const kml = serializeKML([tracker(history)], [geofence('track_1'), { ...geofence('other'), name: 'Elsewhere' }]);
+    expect(kml).toContain('<name>Depot</name>');
+    expect(kml).not.toContain('Elsewhere');
+    const ring = kml.match(/<LinearRing>\s*<coordinates>([^<]+)<\/coordinates>/)?.[1].split(' ') ?? [];
+    expect(ring.length).toBeGreaterThan(3);
+    expect(ring[ring.length - 1]).toBe(ring[0]);
+  });
+
+  it('escapes names', () => {
+    const kml = serializeKML([tracker(history, { name: 'A & B <1>' })]);
+    expect(kml).toContain('<name>A &amp; B &lt;1&gt;</name>');
+  });
+});
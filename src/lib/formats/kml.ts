@@ -0,0 +1,105 @@
+// KML 2.2 writing, for reviewing tracks in Google Earth
+import type { LocationData, Tracker } from '../storage';
+import type { Geofence } from '../geofence-context';
+import { getTrackerColor } from '../tracker-color';
+import { getLatestLocation } from '../tracker-summary';
+import { geofenceRing } from '../geofence-shape';
+import { escapeXML } from './xml';
+
+// KML colors are aabbggrr hex; ours are #rrggbb
+function toKMLColor(hex: string, alpha: string = 'ff'): string {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+function coordinate(latitude: number, longitude: number): string {
+  return `${longitude},${latitude},0`;
+}
+
+function trackerStyle(tracker: Tracker): string {
+  const color = getTrackerColor(tracker);
+  return [
+    `    <Style id="tracker-${escapeXML(tracker.id)}">`,
+    `      <LineStyle><color>${toKMLColor(color)}</color><width>4</width></LineStyle>`,
+    `      <IconStyle><color>${toKMLColor(color)}</color></IconStyle>`,
+    `      <PolyStyle><color>${toKMLColor(color, '40')}</color></PolyStyle>`,
+    '    </Style>',
+  ].join('\n');
+}
+
+function pathPlacemark(tracker: Tracker, locations: LocationData[]): string {
+  return [
+    '      <Placemark>',
+    `        <name>${escapeXML(tracker.name)} path</name>`,
+    `        <styleUrl>#tracker-${escapeXML(tracker.id)}</styleUrl>`,
+    '        <LineString>',
+    '          <tessellate>1</tessellate>',
+    `          <coordinates>${locations.map((loc) => coordinate(loc.latitude, loc.longitude)).join(' ')}</coordinates>`,
+    '        </LineString>',
+    '      </Placemark>',
+  ].join('\n');
+}
+
+function latestPlacemark(tracker: Tracker, latest: LocationData): string {
+  const description = `Accuracy: ±${latest.accuracy.toFixed(1)}m`;
+  return [
+    '      <Placemark>',
+    `        <name>${escapeXML(tracker.name)}</name>`,
+    `        <description>${escapeXML(description)}</description>`,
+    `        <TimeStamp><when>${new Date(latest.timestamp).toISOString()}</when></TimeStamp>`,
+    `        <styleUrl>#tracker-${escapeXML(tracker.id)}</styleUrl>`,
+    `        <Point><coordinates>${coordinate(latest.latitude, latest.longitude)}</coordinates></Point>`,
+    '      </Placemark>',
+  ].join('\n');
+}
+
+function geofencePlacemark(tracker: Tracker, geofence: Geofence): string {
+  return [
+    '      <Placemark>',
+    `        <name>${escapeXML(geofence.name)}</name>`,
+    `        <description>${escapeXML(`Geofence, ${geofence.radiusMeters}m radius`)}</description>`,
+    `        <styleUrl>#tracker-${escapeXML(tracker.id)}</styleUrl>`,
+    '        <Polygon>',
+    '          <outerBoundaryIs><LinearRing>',
+    `            <coordinates>${geofenceRing(geofence).map(([lng, lat]) => coordinate(lat, lng)).join(' ')}</coordinates>`,
+    '          </LinearRing></outerBoundaryIs>',
+    '        </Polygon>',
+    '      </Placemark>',
+  ].join('\n');
+}
+
+function trackerFolder(tracker: Tracker, geofences: Geofence[]): string {
+  const sorted = [...tracker.locations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const latest = getLatestLocation(tracker);
+  const lines = ['    <Folder>', `      <name>${escapeXML(tracker.name)}</name>`];
+  if (tracker.description) lines.push(`      <description>${escapeXML(tracker.description)}</description>`);
+  if (sorted.length > 1) lines.push(pathPlacemark(tracker, sorted));
+  if (latest) lines.push(latestPlacemark(tracker, latest));
+  geofences
+    .filter((g) => g.trackerId === tracker.id)
+    .forEach((g) => lines.push(geofencePlacemark(tracker, g)));
+  lines.push('    </Folder>');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize trackers as a KML document: a colored path, a placemark at the
+ * latest fix and a polygon per circular geofence, one folder per tracker
+ * @param trackers - Trackers with their loaded history in `locations`
+ * @param geofences - Geofences to draw; only those belonging to the trackers are used
+ * @returns KML XML text
+ */
+export function serializeKML(trackers: Tracker[], geofences: Geofence[] = []): string {
+  const name = trackers.length === 1 ? trackers[0].name : `${trackers.length} trackers`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXML(name)}</name>`,
+    ...trackers.map(trackerStyle),
+    ...trackers.map((tracker) => trackerFolder(tracker, geofences)),
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
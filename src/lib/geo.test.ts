@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bearing,
+  boundingBox,
+  destinationPoint,
+  distanceBetween,
+  haversineDistance,
+  isInBoundingBox,
+  pathDistance,
+  pointInPolygon,
+  speedBetween,
+} from './geo';
+
+// One degree of arc on the 6371 km sphere
+const ONE_DEGREE_METERS = 111194.93;
+
+const at = (latitude: number, longitude: number) => ({ latitude, longitude });
+
+describe('haversineDistance', () => {
+  it('matches the published London to Paris distance', () => {
+    expect(haversineDistance(51.5074, -0.1278, 48.8566, 2.3522)).toBeCloseTo(343556, -1);
+  });
+
+  it('is zero for the same point', () => {
+    expect(haversineDistance(12.34, 56.78, 12.34, 56.78)).toBe(0);
+  });
+
+  it('measures one degree along the equator', () => {
+    expect(haversineDistance(0, 0, 0, 1)).toBeCloseTo(ONE_DEGREE_METERS, 1);
+  });
+
+  it('takes the short way across the antimeridian', () => {
+    expect(haversineDistance(0, 179.5, 0, -179.5)).toBeCloseTo(ONE_DEGREE_METERS, 1);
+  });
+
+  it('treats every longitude at a pole as the same point', () => {
+    expect(haversineDistance(90, 0, 90, 123)).toBeCloseTo(0, 6);
+    expect(haversineDistance(-90, -45, -90, 170)).toBeCloseTo(0, 6);
+  });
+
+  it('goes over the pole between opposite meridians', () => {
+    expect(haversineDistance(89, 0, 89, 180)).toBeCloseTo(2 * ONE_DEGREE_METERS, 1);
+  });
+
+  it('measures half the circumference between antipodes', () => {
+    expect(haversineDistance(0, 0, 0, 180)).toBeCloseTo(Math.PI * 6371e3, 0);
+  });
+});
+
+describe('pathDistance', () => {
+  it('sums the hops between consecutive points', () => {
+    expect(pathDistance([at(0, 0), at(0, 1), at(1, 1)])).toBeCloseTo(2 * ONE_DEGREE_METERS, 0);
+  });
+
+  it('is zero for fewer than two points', () => {
+    expect(pathDistance([])).toBe(0);
+    expect(pathDistance([at(10, 10)])).toBe(0);
+  });
+});
+
+describe('bearing', () => {
+  it('points along the cardinal directions', () => {
+    expect(bearing(at(0, 0), at(1, 0))).toBeCloseTo(0, 6);
+    expect(bearing(at(0, 0), at(0, 1))).toBeCloseTo(90, 6);
+    expect(bearing(at(0, 0), at(-1, 0))).toBeCloseTo(180, 6);
+    expect(bearing(at(0, 0), at(0, -1))).toBeCloseTo(270, 6);
+  });
+
+  it('matches the published London to Paris initial bearing', () => {
+    expect(bearing(at(51.5074, -0.1278), at(48.8566, 2.3522))).toBeCloseTo(148.1, 1);
+  });
+
+  it('heads east across the antimeridian', () => {
+    expect(bearing(at(0, 179.5), at(0, -179.5))).toBeCloseTo(90, 6);
+    expect(bearing(at(0, -179.5), at(0, 179.5))).toBeCloseTo(270, 6);
+  });
+
+  it('heads south from the north pole and north from the south pole', () => {
+    expect(bearing(at(90, 0), at(45, 0))).toBeCloseTo(180, 6);
+    expect(bearing(at(-90, 0), at(-45, 0))).toBeCloseTo(0, 6);
+  });
+
+  it('stays in [0, 360)', () => {
+    const degrees = bearing(at(10, 10), at(10.0001, 9.99999));
+    expect(degrees).toBeGreaterThanOrEqual(0);
+    expect(degrees).toBeLessThan(360);
+  });
+});
+
+describe('destinationPoint', () => {
+  it('wraps longitudes past the antimeridian', () => {
+    const point = destinationPoint(at(0, 179.5), 90, ONE_DEGREE_METERS);
+    expect(point.latitude).toBeCloseTo(0, 6);
+    expect(point.longitude).toBeCloseTo(-179.5, 6);
+  });
+
+  it('is undone by travelling back on the reverse bearing', () => {
+    const start = at(48.8566, 2.3522);
+    const there = destinationPoint(start, 30, 5000);
+    const back = destinationPoint(there, bearing(there, start), 5000);
+    expect(back.latitude).toBeCloseTo(start.latitude, 6);
+    expect(back.longitude).toBeCloseTo(start.longitude, 6);
+  });
+});
+
+describe('speedBetween', () => {
+  it('divides distance by elapsed time', () => {
+    const a = { ...at(0, 0), timestamp: '2024-01-01T00:00:00.000Z' };
+    const b = { ...at(0, 1), timestamp: '2024-01-01T01:00:00.000Z' };
+    expect(speedBetween(a, b)).toBeCloseTo(ONE_DEGREE_METERS / 3600, 3);
+  });
+
+  it('uses the short distance across the antimeridian', () => {
+    const a = { ...at(0, 179.5), timestamp: '2024-01-01T00:00:00.000Z' };
+    const b = { ...at(0, -179.5), timestamp: '2024-01-01T00:00:10.000Z' };
+    expect(speedBetween(a, b)).toBeCloseTo(ONE_DEGREE_METERS / 10, 1);
+  });
+
+  it('is null when no time passed or the fixes are out of order', () => {
+    const a = { ...at(0, 0), timestamp: '2024-01-01T00:00:00.000Z' };
+    const b = { ...at(0, 1), timestamp: '2024-01-01T00:00:00.000Z' };
+    expect(speedBetween(a, b)).toBeNull();
+    expect(speedBetween({ ...b, timestamp: '2024-01-01T00:01:00.000Z' }, a)).toBeNull();
+  });
+
+  it('is zero when standing still', () => {
+    const a = { ...at(5, 5), timestamp: '2024-01-01T00:00:00.000Z' };
+    const b = { ...at(5, 5), timestamp: '2024-01-01T00:00:30.000Z' };
+    expect(speedBetween(a, b)).toBe(0);
+  });
+});
+
+describe('boundingBox', () => {
+  it('is null for no points', () => {
+    expect(boundingBox([])).toBeNull();
+  });
+
+  it('collapses to a single point', () => {
+    expect(boundingBox([at(1, 2)])).toEqual({ minLat: 1, maxLat: 1, minLng: 2, maxLng: 2 });
+  });
+
+  it('encloses every point', () => {
+    expect(boundingBox([at(1, 2), at(-3, 4), at(5, -6)])).toEqual({ minLat: -3, maxLat: 5, minLng: -6, maxLng: 4 });
+  });
+
+  it('crosses the antimeridian instead of spanning the globe', () => {
+    const box = boundingBox([at(-10, 179), at(10, -179), at(0, 178)]);
+    expect(box).toEqual({ minLat: -10, maxLat: 10, minLng: 178, maxLng: -179 });
+  });
+
+  it('reaches a pole', () => {
+    const box = boundingBox([at(89, 0), at(90, 45)]);
+    expect(box?.maxLat).toBe(90);
+    expect(box?.minLat).toBe(89);
+  });
+});
+
+describe('isInBoundingBox', () => {
+  const box = { minLat: -10, maxLat: 10, minLng: -20, maxLng: 20 };
+
+  it('includes the inside and the edges', () => {
+    expect(isInBoundingBox(at(0, 0), box)).toBe(true);
+    expect(isInBoundingBox(at(10, 20), box)).toBe(true);
+    expect(isInBoundingBox(at(-10, -20), box)).toBe(true);
+  });
+
+  it('excludes points outside', () => {
+    expect(isInBoundingBox(at(10.0001, 0), box)).toBe(false);
+    expect(isInBoundingBox(at(0, -20.0001), box)).toBe(false);
+  });
+
+  it('handles a box across the antimeridian', () => {
+    const wrapped = { minLat: -10, maxLat: 10, minLng: 170, maxLng: -170 };
+    expect(isInBoundingBox(at(0, 180), wrapped)).toBe(true);
+    expect(isInBoundingBox(at(0, -175), wrapped)).toBe(true);
+    expect(isInBoundingBox(at(0, 175), wrapped)).toBe(true);
+    expect(isInBoundingBox(at(0, 0), wrapped)).toBe(false);
+  });
+});
+
+describe('pointInPolygon', () => {
+  const square = [at(0, 0), at(0, 10), at(10, 10), at(10, 0)];
+
+  it('finds points inside and outside', () => {
+    expect(pointInPolygon(at(5, 5), square)).toBe(true);
+    expect(pointInPolygon(at(15, 5), square)).toBe(false);
+    expect(pointInPolygon(at(-0.0001, 5), square)).toBe(false);
+  });
+
+  it('counts points on an edge or a vertex as inside', () => {
+    expect(pointInPolygon(at(0, 5), square)).toBe(true);
+    expect(pointInPolygon(at(5, 10), square)).toBe(true);
+    expect(pointInPolygon(at(10, 10), square)).toBe(true);
+    expect(pointInPolygon(at(0, 0), square)).toBe(true);
+  });
+
+  it('counts points on a slanted edge as inside', () => {
+    const triangle = [at(0, 0), at(10, 10), at(0, 10)];
+    expect(pointInPolygon(at(5, 5), triangle)).toBe(true);
+    expect(pointInPolygon(at(5, 4.999), triangle)).toBe(false);
+  });
+
+  it('handles a concave polygon', () => {
+    const notch = [at(0, 0), at(0, 10), at(10, 10), at(5, 5), at(10, 0)];
+    expect(pointInPolygon(at(2, 5), notch)).toBe(true);
+    expect(pointInPolygon(at(8, 5), notch)).toBe(false);
+  });
+
+  it('handles a polygon across the antimeridian', () => {
+    const wrapped = [at(-1, 179), at(-1, -179), at(1, -179), at(1, 179)];
+    expect(pointInPolygon(at(0, 180), wrapped)).toBe(true);
+    expect(pointInPolygon(at(0, -179.5), wrapped)).toBe(true);
+    expect(pointInPolygon(at(0, 179.5), wrapped)).toBe(true);
+    expect(pointInPolygon(at(0, 0), wrapped)).toBe(false);
+    expect(pointInPolygon(at(0, 178), wrapped)).toBe(false);
+  });
+
+  it('is false for an empty polygon', () => {
+    expect(pointInPolygon(at(0, 0), [])).toBe(false);
+  });
+});
+
+describe('distanceBetween', () => {
+  it('agrees with haversineDistance', () => {
+    expect(distanceBetween(at(1, 2), at(3, 4))).toBe(haversineDistance(1, 2, 3, 4));
+  });
+});
@@ -0,0 +1,170 @@
+// Spherical-earth geometry shared by the dashboard, map, geofences and exports.
+// Distances are in meters, speeds in meters per second, angles in degrees.
+
+export const EARTH_RADIUS_METERS = 6371e3;
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// minLng > maxLng means the box crosses the antimeridian: it covers
+// minLng..180 and -180..maxLng
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+// Great-circle distance in meters
+export function haversineDistance(
+  lat1: number, lon1: number,
+  lat2: number, lon2: number,
+): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function distanceBetween(a: LatLng, b: LatLng): number {
+  return haversineDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+// Sum of the hops between consecutive points
+export function pathDistance(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += distanceBetween(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// Initial bearing from a to b, clockwise from true north in [0, 360)
+export function bearing(a: LatLng, b: LatLng): number {
+  const lat1 = toRad(a.latitude);
+  const lat2 = toRad(b.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+// Nearest of the eight compass points for a bearing
+export function compassDirection(degrees: number): string {
+  return COMPASS_POINTS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+}
+
+// Point reached by travelling distanceMeters from origin on the given bearing
+export function destinationPoint(origin: LatLng, bearingDegrees: number, distanceMeters: number): LatLng {
+  const lat1 = toRad(origin.latitude);
+  const lng1 = toRad(origin.longitude);
+  const angular = distanceMeters / EARTH_RADIUS_METERS;
+  const theta = toRad(bearingDegrees);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lng2 = lng1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { latitude: toDeg(lat2), longitude: ((toDeg(lng2) + 540) % 360) - 180 };
+}
+
+// Average speed between two timestamped fixes in m/s; null when no time passed
+export function speedBetween(a: LatLng & { timestamp: string }, b: LatLng & { timestamp: string }): number | null {
+  const seconds = (new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()) / 1000;
+  if (!(seconds > 0)) return null;
+  return distanceBetween(a, b) / seconds;
+}
+
+// Longitude shifted by whole turns into [-180, 180)
+function normalizeLng(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+// Smallest box containing every point; null for no points. The longitude span
+// is the narrowest one, so points either side of the antimeridian give a box
+// that crosses it rather than one spanning the whole globe.
+export function boundingBox(points: LatLng[]): BoundingBox | null {
+  if (points.length === 0) return null;
+  const lats = points.map((p) => p.latitude);
+  const lngs = points.map((p) => normalizeLng(p.longitude)).sort((a, b) => a - b);
+
+  // The box leaves out the widest gap between neighbouring longitudes;
+  // by default that is the one across the antimeridian
+  let minLng = lngs[0];
+  let maxLng = lngs[lngs.length - 1];
+  let widestGap = 360 - (maxLng - minLng);
+  for (let i = 1; i < lngs.length; i++) {
+    const gap = lngs[i] - lngs[i - 1];
+    if (gap > widestGap) {
+      widestGap = gap;
+      minLng = lngs[i];
+      maxLng = lngs[i - 1];
+    }
+  }
+
+  return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng, maxLng };
+}
+
+export function isInBoundingBox(point: LatLng, box: BoundingBox): boolean {
+  if (point.latitude < box.minLat || point.latitude > box.maxLat) return false;
+  const lng = normalizeLng(point.longitude);
+  return box.minLng <= box.maxLng
+    ? lng >= box.minLng && lng <= box.maxLng
+    : lng >= box.minLng || lng <= box.maxLng;
+}
+
+// Points this close to an edge (in degrees) count as on it
+const EDGE_TOLERANCE_DEGREES = 1e-9;
+
+function isOnSegment(point: LatLng, a: LatLng, b: LatLng): boolean {
+  const dLat = b.latitude - a.latitude;
+  const dLng = b.longitude - a.longitude;
+  const length = Math.hypot(dLat, dLng);
+  const cross = dLng * (point.latitude - a.latitude) - dLat * (point.longitude - a.longitude);
+  if (Math.abs(cross) > EDGE_TOLERANCE_DEGREES * Math.max(length, 1)) return false;
+  return point.latitude >= Math.min(a.latitude, b.latitude) - EDGE_TOLERANCE_DEGREES &&
+    point.latitude <= Math.max(a.latitude, b.latitude) + EDGE_TOLERANCE_DEGREES &&
+    point.longitude >= Math.min(a.longitude, b.longitude) - EDGE_TOLERANCE_DEGREES &&
+    point.longitude <= Math.max(a.longitude, b.longitude) + EDGE_TOLERANCE_DEGREES;
+}
+
+// Ray casting on plain lat/lng, which is accurate enough for polygons a few
+// kilometers across. Points on an edge or vertex count as inside. Longitudes
+// are unwrapped around the first vertex so polygons across the antimeridian
+// work; polygons around a pole do not.
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  if (polygon.length === 0) return false;
+  const origin = polygon[0].longitude;
+  const unwrap = (p: LatLng): LatLng => ({
+    latitude: p.latitude,
+    longitude: origin + normalizeLng(p.longitude - origin),
+  });
+  const ring = polygon.map(unwrap);
+  const target = unwrap(point);
+
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (isOnSegment(target, a, b)) return true;
+    if (
+      (a.latitude > target.latitude) !== (b.latitude > target.latitude) &&
+      target.longitude < ((b.longitude - a.longitude) * (target.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
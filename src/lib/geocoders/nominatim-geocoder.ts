@@ -0,0 +1,63 @@
+// Geocoder for the Nominatim HTTP API (https://nominatim.org/release-docs/latest/api/)
+// Works against the public OpenStreetMap instance, a self-hosted one or a local stub
+
+import type { Geocoder, GeocodeResult } from '../geocoding';
+
+// The public instance allows one request per second
+const MIN_REQUEST_INTERVAL_MS = 1000;
+const SEARCH_RESULT_LIMIT = 5;
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+function toResult(place: NominatimPlace): GeocodeResult {
+  return {
+    latitude: parseFloat(place.lat),
+    longitude: parseFloat(place.lon),
+    label: place.display_name,
+  };
+}
+
+export function createNominatimGeocoder(baseUrl: string): Geocoder {
+  const root = baseUrl.replace(/\/+$/, '');
+  // Requests are chained so they go out at most once per interval
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const request = <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const url = `${root}/${path}?${new URLSearchParams({ format: 'jsonv2', ...params }).toString()}`;
+    const run = async () => {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`Geocoding request failed with status ${response.status}`);
+      }
+      return (await response.json()) as T;
+    };
+    const result = queue.then(run, run);
+    queue = result
+      .catch(() => undefined)
+      .then(() => new Promise((resolve) => setTimeout(resolve, MIN_REQUEST_INTERVAL_MS)));
+    return result;
+  };
+
+  return {
+    async search(query) {
+      const places = await request<NominatimPlace[]>('search', {
+        q: query,
+        limit: String(SEARCH_RESULT_LIMIT),
+      });
+      return places.map(toResult);
+    },
+
+    async reverse(latitude, longitude) {
+      // Nominatim answers an unknown place with 200 and an `error` field
+      const place = await request<NominatimPlace & { error?: string }>('reverse', {
+        lat: String(latitude),
+        lon: String(longitude),
+      });
+      return place.error ? null : toResult(place);
+    },
+  };
+}
@@ -0,0 +1,137 @@
+// Forward and reverse geocoding behind a pluggable provider
+// The provider is chosen at startup from NEXT_PUBLIC_GEOCODER; results are
+// cached in IndexedDB so each place is looked up once per browser
+
+import { GEOCODE_STORE, openDatabase, requestToPromise, transactionDone } from './idb';
+import { createNominatimGeocoder } from './geocoders/nominatim-geocoder';
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  // Human-readable address or place name
+  label: string;
+}
+
+export interface Geocoder {
+  // Places matching a free-text query, best match first
+  search(query: string): Promise<GeocodeResult[]>;
+  // Address at a position; null when the provider knows none
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+}
+
+export type GeocoderProvider = 'nominatim' | 'none';
+
+const GEOCODER_PROVIDERS: GeocoderProvider[] = ['nominatim', 'none'];
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// Cached results are refreshed after 30 days
+const CACHE_TTL_MS = 30 * 86400000;
+
+// Reverse lookups are rounded to 4 decimals (about 11m) so nearby fixes share an address
+const REVERSE_PRECISION = 4;
+
+interface CacheEntry {
+  key: string;
+  value: GeocodeResult[];
+  cachedAt: number;
+}
+
+// Read the configured provider, defaulting to Nominatim
+export function getGeocoderProvider(): GeocoderProvider {
+  const configured = process.env.NEXT_PUBLIC_GEOCODER as GeocoderProvider | undefined;
+  if (configured && GEOCODER_PROVIDERS.includes(configured)) {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown geocoder "${configured}", using nominatim`);
+  }
+  return 'nominatim';
+}
+
+const disabledGeocoder: Geocoder = {
+  search: async () => [],
+  reverse: async () => null,
+};
+
+let geocoder: Geocoder | null = null;
+
+// Get the geocoder for the configured provider (created once per page load)
+export function getGeocoder(): Geocoder {
+  if (!geocoder) {
+    geocoder = getGeocoderProvider() === 'none'
+      ? disabledGeocoder
+      : createNominatimGeocoder(process.env.NEXT_PUBLIC_GEOCODER_URL || DEFAULT_NOMINATIM_URL);
+  }
+  return geocoder;
+}
+
+export function isGeocodingEnabled(): boolean {
+  return getGeocoderProvider() !== 'none';
+}
+
+async function readCache(key: string): Promise<GeocodeResult[] | null> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(GEOCODE_STORE, 'readonly').objectStore(GEOCODE_STORE);
+    const entry = await requestToPromise(store.get(key) as IDBRequest<CacheEntry | undefined>);
+    return entry && Date.now() - entry.cachedAt < CACHE_TTL_MS ? entry.value : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(key: string, value: GeocodeResult[]): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(GEOCODE_STORE, 'readwrite');
+    const entry: CacheEntry = { key, value, cachedAt: Date.now() };
+    transaction.objectStore(GEOCODE_STORE).put(entry);
+    await transactionDone(transaction);
+  } catch {
+    // Without IndexedDB every lookup goes to the provider
+  }
+}
+
+// Lookups in flight, so components asking for the same place share one request
+const pending = new Map<string, Promise<GeocodeResult[]>>();
+
+function cachedLookup(key: string, lookup: () => Promise<GeocodeResult[]>): Promise<GeocodeResult[]> {
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const promise = (async () => {
+    const cached = await readCache(key);
+    if (cached) return cached;
+    const value = await lookup();
+    await writeCache(key, value);
+    return value;
+  })().finally(() => pending.delete(key));
+
+  pending.set(key, promise);
+  return promise;
+}
+
+// Places matching a free-text query; empty on blank queries
+export async function searchAddress(query: string): Promise<GeocodeResult[]> {
+  const normalized = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (!normalized || !isGeocodingEnabled()) return [];
+  return cachedLookup(`search:${normalized}`, () => getGeocoder().search(normalized));
+}
+
+// Address label at a position, or null when none is known or the lookup fails
+export async function reverseGeocode(latitude: number, longitude: number): Promise<string | null> {
+  if (!isGeocodingEnabled()) return null;
+  const lat = latitude.toFixed(REVERSE_PRECISION);
+  const lng = longitude.toFixed(REVERSE_PRECISION);
+  try {
+    const results = await cachedLookup(`reverse:${lat},${lng}`, async () => {
+      const result = await getGeocoder().reverse(Number(lat), Number(lng));
+      return result ? [result] : [];
+    });
+    return results[0]?.label ?? null;
+  } catch (error) {
+    console.error('Reverse geocoding failed:', error);
+    return null;
+  }
+}
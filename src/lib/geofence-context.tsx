@@ -1,6 +1,7 @@
 'use client';
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { haversineDistance } from './geo';
 
 export interface Geofence {
   id: string;
@@ -25,9 +26,13 @@ export interface GeofenceAlert {
 
 interface GeofenceContextType {
   geofences: Geofence[];
+  // Last known inside/outside state per `${geofenceId}:${trackerId}`
+  geofenceStates: Record<string, boolean>;
   alerts: GeofenceAlert[];
   addGeofence: (geofence: Omit<Geofence, 'id' | 'createdAt'>) => void;
   removeGeofence: (id: string) => void;
+  // Add geofences from a backup, keeping any that already exist with the same ID
+  restoreGeofences: (geofences: Geofence[], states: Record<string, boolean>) => void;
   clearAlerts: () => void;
   dismissAlert: (id: string) => void;
   checkLocation: (trackerId: string, lat: number, lng: number) => void;
@@ -38,20 +43,6 @@ const GeofenceContext = createContext<GeofenceContextType | undefined>(undefined
 const GEOFENCE_STORAGE_KEY = 'geotracker_geofences';
 const GEOFENCE_STATE_KEY = 'geotracker_geofence_states';
 
-function haversineDistance(
-  lat1: number, lon1: number,
-  lat2: number, lon2: number,
-): number {
-  const R = 6371e3;
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
 export function GeofenceProvider({ children }: { children: ReactNode }) {
   const [geofences, setGeofences] = useState<Geofence[]>([]);
   const [alerts, setAlerts] = useState<GeofenceAlert[]>([]);
@@ -111,6 +102,14 @@ export function GeofenceProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  const restoreGeofences = useCallback((restored: Geofence[], states: Record<string, boolean>) => {
+    setGeofences((prev) => {
+      const ids = new Set(prev.map((g) => g.id));
+      return [...prev, ...restored.filter((g) => !ids.has(g.id))];
+    });
+    setInsideStates((prev) => ({ ...states, ...prev }));
+  }, []);
+
   const clearAlerts = useCallback(() => {
     setAlerts([]);
   }, []);
@@ -159,9 +158,11 @@ export function GeofenceProvider({ children }: { children: ReactNode }) {
   return (
     <GeofenceContext.Provider value={{
       geofences,
+      geofenceStates: insideStates,
       alerts,
       addGeofence,
       removeGeofence,
+      restoreGeofences,
       clearAlerts,
       dismissAlert,
       checkLocation,
@@ -0,0 +1,38 @@
+// Replay a recorded history against geofences to find when it entered and left
+// them. Live alerts come from geofence-context; this covers past data, e.g. for reports.
+import type { LocationData } from './storage';
+import type { Geofence } from './geofence-context';
+import { haversineDistance } from './geo';
+
+export interface GeofenceEvent {
+  geofenceId: string;
+  geofenceName: string;
+  type: 'enter' | 'exit';
+  timestamp: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Events in time order for a history sorted oldest first. As with live alerts,
+// the first fix only sets the starting state and produces no event.
+export function detectGeofenceEvents(locations: LocationData[], geofences: Geofence[]): GeofenceEvent[] {
+  const events: GeofenceEvent[] = [];
+  for (const fence of geofences) {
+    let wasInside: boolean | null = null;
+    for (const loc of locations) {
+      const isInside = haversineDistance(loc.latitude, loc.longitude, fence.centerLat, fence.centerLng) <= fence.radiusMeters;
+      if (wasInside !== null && wasInside !== isInside) {
+        events.push({
+          geofenceId: fence.id,
+          geofenceName: fence.name,
+          type: isInside ? 'enter' : 'exit',
+          timestamp: loc.timestamp,
+          latitude: loc.latitude,
+          longitude: loc.longitude,
+        });
+      }
+      wasInside = isInside;
+    }
+  }
+  return events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
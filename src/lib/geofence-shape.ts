@@ -0,0 +1,20 @@
+// Polygon approximation of circular geofences, shared by the map and the exports
+import type { Geofence } from './geofence-context';
+import { destinationPoint } from './geo';
+
+// Vertices used to approximate the circle
+const CIRCLE_SEGMENTS = 64;
+
+// Closed ring of [longitude, latitude] pairs radiusMeters from the center.
+// The first pair is repeated at the end, as GeoJSON and KML expect.
+export function geofenceRing(
+  geofence: Pick<Geofence, 'centerLat' | 'centerLng' | 'radiusMeters'>
+): [number, number][] {
+  const center = { latitude: geofence.centerLat, longitude: geofence.centerLng };
+  const ring: [number, number][] = [];
+  for (let i = 0; i <= CIRCLE_SEGMENTS; i++) {
+    const point = destinationPoint(center, (360 * (i % CIRCLE_SEGMENTS)) / CIRCLE_SEGMENTS, geofence.radiusMeters);
+    ring.push([point.longitude, point.latitude]);
+  }
+  return ring;
+}
@@ -0,0 +1,50 @@
+// Heatmap weights for location histories. A fix recorded at the tracking
+// page's normal 15-second rate weighs 1; with dwell weighting, a fix followed
+// by a long silence (the device parked, or asleep) weighs more.
+import type { LocationData } from './storage';
+
+// The tracking page's update interval
+const DWELL_UNIT_MS = 15000;
+// Longer silences are more likely a dead battery than a stay
+export const MAX_DWELL_MS = 30 * 60 * 1000;
+
+// Fixes loaded per tracker for the heatmap, the most recent in the window, so
+// many trackers over a long window cannot load unbounded history
+export const HEATMAP_POINTS_PER_TRACKER = 1000;
+
+export interface HeatPoint {
+  latitude: number;
+  longitude: number;
+  weight: number;
+}
+
+export interface HeatmapSettings {
+  enabled: boolean;
+  // Key of the map view's history windows
+  window: string;
+  // Radius of each point in screen pixels
+  radius: number;
+  // Multiplier on every point's weight
+  intensity: number;
+  weightByDwell: boolean;
+}
+
+export const DEFAULT_HEATMAP: HeatmapSettings = {
+  enabled: false,
+  window: '24h',
+  radius: 25,
+  intensity: 1,
+  weightByDwell: true,
+};
+
+// Weighted heatmap points for one tracker's history, sorted oldest first
+export function heatmapPoints(locations: LocationData[], weightByDwell: boolean): HeatPoint[] {
+  return locations.map((loc, i) => {
+    let weight = 1;
+    if (weightByDwell && i < locations.length - 1) {
+      const dwellMs = new Date(locations[i + 1].timestamp).getTime() - new Date(loc.timestamp).getTime();
+      weight = Math.max(1, Math.min(dwellMs, MAX_DWELL_MS) / DWELL_UNIT_MS);
+    }
+    return { latitude: loc.latitude, longitude: loc.longitude, weight };
+  });
+}
@@ -0,0 +1,71 @@
+// Minimal promise wrappers around IndexedDB
+// All client-side object stores live in one database so upgrades happen in one place
+
+const DB_NAME = 'geotracker';
+// v2 added the geocode cache
+const DB_VERSION = 2;
+
+// Location fixes waiting to be uploaded, in recording order
+export const OUTBOX_STORE = 'location_outbox';
+// Geocoding results keyed by lookup, see geocoding.ts
+export const GEOCODE_STORE = 'geocode_cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+// Open (and if needed create or upgrade) the shared database
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not supported in this browser'));
+  }
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'key', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(GEOCODE_STORE)) {
+        db.createObjectStore(GEOCODE_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version opened in another tab upgrade instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Resolve an IDBRequest as a promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Resolve once a transaction has committed
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
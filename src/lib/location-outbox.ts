@@ -0,0 +1,206 @@
+// Durable outbox for location fixes that could not be uploaded
+// Fixes are kept in IndexedDB (or localStorage where IndexedDB is unavailable)
+// and replayed in recording order once the backend is reachable
+
+import type { LocationData } from './storage';
+import { OUTBOX_STORE, openDatabase, requestToPromise, transactionDone } from './idb';
+import { isPermanentError } from './storage-errors';
+
+export interface OutboxEntry {
+  // IndexedDB key; missing on entries kept in the localStorage fallback
+  key?: number;
+  trackingId: string;
+  location: LocationData;
+  queuedAt: string;
+}
+
+export type OutboxSender = (trackingId: string, location: LocationData) => Promise<boolean>;
+
+// Retry backoff: 5s, 10s, 20s ... capped at 5 minutes
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 300000;
+
+// Entries queued while IndexedDB was unavailable
+const FALLBACK_KEY = 'geotracker_location_outbox';
+
+function readFallbackEntries(): OutboxEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(FALLBACK_KEY);
+    return stored ? (JSON.parse(stored) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('Error reading localStorage outbox:', error);
+    return [];
+  }
+}
+
+function writeFallbackEntries(entries: OutboxEntry[]): void {
+  if (entries.length === 0) {
+    localStorage.removeItem(FALLBACK_KEY);
+  } else {
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify(entries));
+  }
+}
+
+function isSameEntry(a: OutboxEntry, b: OutboxEntry): boolean {
+  return a.trackingId === b.trackingId && a.queuedAt === b.queuedAt && a.location.timestamp === b.location.timestamp;
+}
+
+const listeners = new Set<(count: number) => void>();
+
+async function notifyListeners(): Promise<void> {
+  if (listeners.size === 0) return;
+  const count = await getPendingCount();
+  listeners.forEach((listener) => listener(count));
+}
+
+// Queue a fix for later upload. Throws if neither IndexedDB nor localStorage
+// can hold it.
+export async function enqueueLocation(trackingId: string, location: LocationData): Promise<void> {
+  const entry: OutboxEntry = { trackingId, location, queuedAt: new Date().toISOString() };
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+    transaction.objectStore(OUTBOX_STORE).add(entry);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.error('IndexedDB outbox unavailable, queueing in localStorage:', error);
+    writeFallbackEntries([...readFallbackEntries(), entry]);
+  }
+  await notifyListeners();
+}
+
+async function getStoredEntries(): Promise<OutboxEntry[]> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+    return await requestToPromise(store.getAll() as IDBRequest<OutboxEntry[]>);
+  } catch (error) {
+    console.error('Error reading IndexedDB outbox:', error);
+    return [];
+  }
+}
+
+// All queued fixes from both stores, oldest first
+export async function getPendingEntries(): Promise<OutboxEntry[]> {
+  const entries = [...(await getStoredEntries()), ...readFallbackEntries()];
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function getPendingCount(): Promise<number> {
+  let stored = 0;
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE);
+    stored = await requestToPromise(store.count());
+  } catch {
+    // Only the localStorage fallback is readable
+  }
+  return stored + readFallbackEntries().length;
+}
+
+async function removeEntry(entry: OutboxEntry): Promise<void> {
+  if (entry.key === undefined) {
+    writeFallbackEntries(readFallbackEntries().filter((queued) => !isSameEntry(queued, entry)));
+    return;
+  }
+  const db = await openDatabase();
+  const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+  transaction.objectStore(OUTBOX_STORE).delete(entry.key);
+  await transactionDone(transaction);
+}
+
+// Listen for changes to the number of queued fixes; called immediately with the current count
+export function subscribeToOutbox(listener: (count: number) => void): () => void {
+  listeners.add(listener);
+  getPendingCount().then((count) => {
+    if (listeners.has(listener)) listener(count);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+let replaying = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let consecutiveFailures = 0;
+
+function scheduleRetry(send: OutboxSender): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  const delay = Math.min(RETRY_BASE_MS * 2 ** consecutiveFailures, RETRY_MAX_MS);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    replayOutbox(send);
+  }, delay);
+}
+
+// Upload queued fixes in order, stopping at the first failure so order is preserved.
+// Returns the number of fixes uploaded.
+export async function replayOutbox(send: OutboxSender): Promise<number> {
+  if (replaying) return 0;
+  replaying = true;
+  let uploaded = 0;
+
+  try {
+    const entries = await getPendingEntries();
+    for (const entry of entries) {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        scheduleRetry(send);
+        break;
+      }
+
+      let success = false;
+      try {
+        success = await send(entry.trackingId, entry.location);
+      } catch (error) {
+        if (isPermanentError(error)) {
+          // Retrying can never succeed (e.g. the tracker was paused); drop the fix
+          console.error('Outbox entry rejected, dropping it:', error);
+          await removeEntry(entry);
+          await notifyListeners();
+          continue;
+        }
+        console.error('Outbox replay failed:', error);
+      }
+
+      if (!success) {
+        consecutiveFailures++;
+        scheduleRetry(send);
+        break;
+      }
+
+      consecutiveFailures = 0;
+      await removeEntry(entry);
+      uploaded++;
+      await notifyListeners();
+    }
+  } catch (error) {
+    console.error('Error reading location outbox:', error);
+  } finally {
+    replaying = false;
+  }
+
+  return uploaded;
+}
+
+// Replay now, whenever the browser comes back online, and on backoff after failures.
+// Returns a function that stops replaying.
+export function startOutboxReplay(send: OutboxSender): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleOnline = () => {
+    consecutiveFailures = 0;
+    replayOutbox(send);
+  };
+
+  window.addEventListener('online', handleOnline);
+  replayOutbox(send);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+}
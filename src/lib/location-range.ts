@@ -0,0 +1,47 @@
+// Time-range windows over a tracker's location history
+// Shared by the Firestore and localStorage code paths so both page the same way
+
+import type { LocationData } from './storage';
+
+// Maximum number of fixes loaded per tracker when no explicit limit is given
+export const DEFAULT_HISTORY_LIMIT = 500;
+
+export interface LocationRange {
+  // Inclusive lower bound (ISO timestamp)
+  from?: string;
+  // Exclusive upper bound (ISO timestamp), used to page backwards through history
+  to?: string;
+  // Keep only the most recent N fixes inside the window
+  limit?: number;
+}
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+// Check whether a single fix falls inside a range (ignores the limit)
+export function isInRange(location: LocationData, range: LocationRange): boolean {
+  const time = toTime(location.timestamp);
+  if (range.from && time < toTime(range.from)) return false;
+  if (range.to && time >= toTime(range.to)) return false;
+  return true;
+}
+
+// Sort fixes oldest first and keep the most recent `limit` of them
+export function sortAndLimit(locations: LocationData[], limit: number = DEFAULT_HISTORY_LIMIT): LocationData[] {
+  const sorted = [...locations].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+  return sorted.length > limit ? sorted.slice(sorted.length - limit) : sorted;
+}
+
+// Apply a range to an in-memory list of fixes, returning them oldest first
+export function applyLocationRange(locations: LocationData[], range: LocationRange = {}): LocationData[] {
+  return sortAndLimit(
+    locations.filter((loc) => isInRange(loc, range)),
+    range.limit ?? DEFAULT_HISTORY_LIMIT,
+  );
+}
+
+// Build a range covering the last `durationMs` milliseconds
+export function rangeForLast(durationMs: number): LocationRange {
+  return { from: new Date(Date.now() - durationMs).toISOString() };
+}
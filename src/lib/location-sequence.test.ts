@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData } from './storage';
+import {
+  createLocationSession,
+  dedupeLocations,
+  excludeExisting,
+  findSequenceGaps,
+  locationFingerprint,
+} from './location-sequence';
+
+const fix = (seconds: number, overrides: Partial<LocationData> = {}): LocationData => ({
+  latitude: 51.5,
+  longitude: -0.12 + seconds / 10000,
+  accuracy: 5,
+  timestamp: new Date(Date.UTC(2024, 2, 5, 8, 0, seconds)).toISOString(),
+  ...overrides,
+});
+
+// Each test gets its own tracker so sessions never resume one another
+let trackerCount = 0;
+const newSession = () => createLocationSession(`track_${++trackerCount}`);
+
+describe('createLocationSession', () => {
+  it('numbers fixes in order and gives each an ID', () => {
+    const session = newSession();
+    const first = session.stamp(fix(0));
+    const second = session.stamp(fix(15));
+    expect([first.seq, second.seq]).toEqual([1, 2]);
+    expect(first.sessionId).toBe(session.sessionId);
+    expect(first.id).toMatch(/^loc_/);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('reuses the stamp when the same fix is reported twice', () => {
+    const session = newSession();
+    const first = session.stamp(fix(0));
+    expect(session.stamp(fix(0))).toEqual(first);
+    expect(session.stamp(fix(15)).seq).toBe(2);
+  });
+
+  it('gives a released number to the next fix', () => {
+    const session = newSession();
+    session.stamp(fix(0));
+    const rejected = session.stamp(fix(15));
+    session.release(rejected);
+    expect(session.stamp(fix(30)).seq).toBe(2);
+  });
+
+  it('only releases the latest number', () => {
+    const session = newSession();
+    const first = session.stamp(fix(0));
+    session.stamp(fix(15));
+    session.release(first);
+    expect(session.stamp(fix(30)).seq).toBe(3);
+  });
+});
+
+describe('dedupeLocations', () => {
+  it('keeps the first of fixes sharing an ID and every fix without one', () => {
+    const a = fix(0, { id: 'a' });
+    const anonymous = fix(5);
+    expect(dedupeLocations([a, fix(10, { id: 'a' }), anonymous, anonymous])).toEqual([a, anonymous, anonymous]);
+  });
+});
+
+describe('excludeExisting', () => {
+  it('drops fixes already stored, by ID or by time and position', () => {
+    const stored = [fix(0, { id: 'a' }), fix(15)];
+    const incoming = [fix(0, { id: 'a' }), fix(15, { id: 'b' }), fix(30)];
+    expect(excludeExisting(stored, incoming)).toEqual([fix(30)]);
+  });
+
+  it('drops duplicates within the incoming fixes', () => {
+    expect(excludeExisting([], [fix(0), fix(0), fix(15)])).toEqual([fix(0), fix(15)]);
+  });
+
+  it('matches positions to six decimal places', () => {
+    const stored = fix(0);
+    const rounded = { ...stored, latitude: stored.latitude + 1e-8 };
+    expect(locationFingerprint(rounded)).toBe(locationFingerprint(stored));
+    expect(excludeExisting([stored], [rounded])).toEqual([]);
+  });
+});
+
+describe('findSequenceGaps', () => {
+  const inSession = (seq: number, sessionId = 'ses_1') => fix(seq * 15, { id: `${sessionId}_${seq}`, sessionId, seq });
+
+  it('reports the numbers missing between received fixes', () => {
+    expect(findSequenceGaps([inSession(1), inSession(2), inSession(6)])).toEqual([
+      {
+        sessionId: 'ses_1',
+        afterSeq: 2,
+        beforeSeq: 6,
+        missing: 3,
+        from: inSession(2).timestamp,
+        to: inSession(6).timestamp,
+      },
+    ]);
+  });
+
+  it('checks each session on its own and ignores unnumbered fixes', () => {
+    const history = [inSession(1, 'ses_a'), inSession(1, 'ses_b'), fix(100), inSession(2, 'ses_a'), inSession(3, 'ses_b')];
+    expect(findSequenceGaps(history).map((gap) => [gap.sessionId, gap.missing])).toEqual([['ses_b', 1]]);
+  });
+
+  it('is not fooled by out-of-order or repeated fixes', () => {
+    expect(findSequenceGaps([inSession(3), inSession(1), inSession(2), inSession(2)])).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+// Client-side identity for location fixes
+// Every fix gets a unique ID (so retried writes are idempotent) and a sequence
+// number within its recording session (so missing fixes can be spotted later)
+
+import type { LocationData } from './storage';
+
+export interface LocationSession {
+  sessionId: string;
+  // Assign an ID and sequence number to a fix; re-reporting the same fix reuses its stamp
+  stamp(location: LocationData): LocationData;
+  // Give back the sequence number of a fix that was neither written nor queued,
+  // so the next fix takes it and no false gap is reported
+  release(location: LocationData): void;
+}
+
+export interface SequenceGap {
+  sessionId: string;
+  // Last sequence number received before the gap
+  afterSeq: number;
+  // First sequence number received after the gap
+  beforeSeq: number;
+  missing: number;
+  from: string;
+  to: string;
+}
+
+function randomId(prefix: string): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return `${prefix}_${crypto.randomUUID()}`;
+  }
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
+
+export function generateLocationId(): string {
+  return randomId('loc');
+}
+
+const SESSION_KEY_PREFIX = 'geotracker_session_';
+
+interface StoredSession {
+  sessionId: string;
+  seq: number;
+}
+
+function loadSession(key: string): StoredSession | null {
+  try {
+    const saved = sessionStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(key: string, session: StoredSession): void {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(session));
+  } catch {
+    // sessionStorage may be unavailable
+  }
+}
+
+// Start (or resume after a reload in the same tab) a recording session for a tracker
+export function createLocationSession(trackingId: string): LocationSession {
+  const key = SESSION_KEY_PREFIX + trackingId;
+  const state: StoredSession = loadSession(key) || { sessionId: randomId('ses'), seq: 0 };
+  let previous: LocationData | null = null;
+
+  return {
+    sessionId: state.sessionId,
+    stamp(location) {
+      // getCurrentPosition may hand back the same cached fix to the interval and the
+      // visibilitychange handler; treat that as one point rather than two
+      if (
+        previous &&
+        previous.timestamp === location.timestamp &&
+        previous.latitude === location.latitude &&
+        previous.longitude === location.longitude
+      ) {
+        return { ...location, id: previous.id, sessionId: previous.sessionId, seq: previous.seq };
+      }
+
+      state.seq += 1;
+      saveSession(key, state);
+      previous = { ...location, id: generateLocationId(), sessionId: state.sessionId, seq: state.seq };
+      return previous;
+    },
+    release(location) {
+      // Only the latest number can be given back; an earlier one is already
+      // followed by fixes that were accepted
+      if (location.sessionId !== state.sessionId || location.seq !== state.seq) return;
+      state.seq -= 1;
+      saveSession(key, state);
+      previous = null;
+    },
+  };
+}
+
+// Drop repeated fixes that share an ID, keeping the first occurrence
+export function dedupeLocations(locations: LocationData[]): LocationData[] {
+  const seen = new Set<string>();
+  return locations.filter((loc) => {
+    if (!loc.id) return true;
+    if (seen.has(loc.id)) return false;
+    seen.add(loc.id);
+    return true;
+  });
+}
+
+// Identity of a fix for points that may lack an ID (e.g. imported from CSV or GPX)
+export function locationFingerprint(location: Pick<LocationData, 'timestamp' | 'latitude' | 'longitude'>): string {
+  return `${location.timestamp}|${location.latitude.toFixed(6)}|${location.longitude.toFixed(6)}`;
+}
+
+// The incoming fixes not already present in `existing`, matched by ID or by
+// time and position, with duplicates inside `incoming` dropped too
+export function excludeExisting(existing: LocationData[], incoming: LocationData[]): LocationData[] {
+  const ids = new Set(existing.map((loc) => loc.id).filter(Boolean));
+  const fingerprints = new Set(existing.map(locationFingerprint));
+  return incoming.filter((loc) => {
+    const fingerprint = locationFingerprint(loc);
+    if ((loc.id && ids.has(loc.id)) || fingerprints.has(fingerprint)) return false;
+    if (loc.id) ids.add(loc.id);
+    fingerprints.add(fingerprint);
+    return true;
+  });
+}
+
+// Find holes in each session's sequence numbers. Fixes recorded before
+// sequence numbers existed are ignored.
+export function findSequenceGaps(locations: LocationData[]): SequenceGap[] {
+  const sessions = new Map<string, LocationData[]>();
+  for (const loc of locations) {
+    if (!loc.sessionId || loc.seq === undefined) continue;
+    const list = sessions.get(loc.sessionId) || [];
+    list.push(loc);
+    sessions.set(loc.sessionId, list);
+  }
+
+  const gaps: SequenceGap[] = [];
+  sessions.forEach((list, sessionId) => {
+    const sorted = dedupeLocations(list).sort((a, b) => (a.seq as number) - (b.seq as number));
+    for (let i = 1; i < sorted.length; i++) {
+      const prev = sorted[i - 1];
+      const curr = sorted[i];
+      const missing = (curr.seq as number) - (prev.seq as number) - 1;
+      if (missing > 0) {
+        gaps.push({
+          sessionId,
+          afterSeq: prev.seq as number,
+          beforeSeq: curr.seq as number,
+          missing,
+          from: prev.timestamp,
+          to: curr.timestamp,
+        });
+      }
+    }
+  });
+
+  return gaps.sort((a, b) => new Date(a.from).getTime() - new Date(b.from).getTime());
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { NoiseFilterSettings, DEFAULT_NOISE_FILTER } from './noise-filter';
+
+interface NoiseFilterContextType {
+  noiseFilter: NoiseFilterSettings;
+  updateNoiseFilter: (changes: Partial<NoiseFilterSettings>) => void;
+}
+
+const NoiseFilterContext = createContext<NoiseFilterContextType | undefined>(undefined);
+
+const NOISE_FILTER_STORAGE_KEY = 'geotracker_noise_filter';
+
+export function NoiseFilterProvider({ children }: { children: ReactNode }) {
+  const [noiseFilter, setNoiseFilter] = useState<NoiseFilterSettings>(DEFAULT_NOISE_FILTER);
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(NOISE_FILTER_STORAGE_KEY);
+      if (saved) setNoiseFilter({ ...DEFAULT_NOISE_FILTER, ...JSON.parse(saved) });
+    } catch {
+      // localStorage may be unavailable
+    }
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(NOISE_FILTER_STORAGE_KEY, JSON.stringify(noiseFilter));
+    } catch {
+      // localStorage may be unavailable
+    }
+  }, [noiseFilter]);
+
+  const updateNoiseFilter = useCallback((changes: Partial<NoiseFilterSettings>) => {
+    setNoiseFilter((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  return (
+    <NoiseFilterContext.Provider value={{ noiseFilter, updateNoiseFilter }}>
+      {children}
+    </NoiseFilterContext.Provider>
+  );
+}
+
+export function useNoiseFilter() {
+  const context = useContext(NoiseFilterContext);
+  if (!context) {
+    throw new Error('useNoiseFilter must be used within a NoiseFilterProvider');
+  }
+  return context;
+}
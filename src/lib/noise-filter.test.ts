@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData } from './storage';
+import { destinationPoint, pathDistance } from './geo';
+import {
+  DEFAULT_NOISE_FILTER,
+  NoiseFilterSettings,
+  countsAsMovement,
+  filterNoise,
+  hasDefaultThresholds,
+} from './noise-filter';
+
+const MINUTE = 60 * 1000;
+const START = Date.parse('2024-03-05T08:00:00.000Z');
+const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+
+// A fix `meters` east of the origin, `minutes` after the start
+const fix = (minutes: number, meters: number, accuracy = 5): LocationData => ({
+  ...destinationPoint(ORIGIN, 90, meters),
+  accuracy,
+  timestamp: new Date(START + minutes * MINUTE).toISOString(),
+});
+
+const UNSMOOTHED: NoiseFilterSettings = { ...DEFAULT_NOISE_FILTER, smoothing: false };
+
+describe('filterNoise', () => {
+  it('returns the raw history when disabled', () => {
+    const history = [fix(0, 0), fix(1, 3, 500)];
+    expect(filterNoise(history, { ...DEFAULT_NOISE_FILTER, enabled: false })).toBe(history);
+  });
+
+  it('drops fixes less accurate than the threshold', () => {
+    const history = [fix(0, 0), fix(1, 400, 250), fix(2, 100)];
+    expect(filterNoise(history, UNSMOOTHED)).toEqual([history[0], history[2]]);
+  });
+
+  it('keeps fixes of unknown accuracy', () => {
+    const unknown = fix(1, 100, 0);
+    expect(filterNoise([fix(0, 0), unknown, fix(2, 200)], UNSMOOTHED)).toContain(unknown);
+  });
+
+  it('drops jitter below the minimum movement but always keeps the last fix', () => {
+    const history = [fix(0, 0), fix(1, 4), fix(2, -3), fix(3, 5), fix(4, 2)];
+    expect(filterNoise(history, UNSMOOTHED)).toEqual([history[0], history[4]]);
+  });
+
+  it('keeps a stationary phone from adding distance', () => {
+    const jitter = Array.from({ length: 60 }, (_, i) => fix(i, (i % 2 ? 1 : -1) * 8, 10));
+    expect(pathDistance(jitter)).toBeGreaterThan(900);
+    expect(pathDistance(filterNoise(jitter))).toBeLessThan(20);
+  });
+
+  it('smooths positions without moving the first fix', () => {
+    const history = [fix(0, 0, 50), fix(1, 100, 50), fix(2, 200, 50)];
+    const smoothed = filterNoise(history, { ...DEFAULT_NOISE_FILTER, minMovementMeters: 0 });
+    expect(smoothed[0]).toEqual(history[0]);
+    expect(smoothed[1].longitude).toBeLessThan(history[1].longitude);
+    expect(smoothed[1].timestamp).toBe(history[1].timestamp);
+  });
+});
+
+describe('countsAsMovement', () => {
+  const anchor = fix(0, 0);
+
+  it('counts a hop beyond both the minimum and the fix accuracy', () => {
+    expect(countsAsMovement(anchor, fix(1, 20, 5))).toBe(true);
+  });
+
+  it('ignores a hop within the fix accuracy', () => {
+    expect(countsAsMovement(anchor, fix(1, 20, 30))).toBe(false);
+  });
+
+  it('ignores a hop below the minimum movement', () => {
+    expect(countsAsMovement(anchor, fix(1, 10, 2))).toBe(false);
+  });
+
+  it('ignores fixes less accurate than the threshold', () => {
+    expect(countsAsMovement(anchor, fix(1, 5000, 150))).toBe(false);
+  });
+
+  it('follows custom thresholds', () => {
+    expect(countsAsMovement(anchor, fix(1, 10, 2), { ...DEFAULT_NOISE_FILTER, minMovementMeters: 5 })).toBe(true);
+  });
+});
+
+describe('hasDefaultThresholds', () => {
+  it('ignores the on/off and smoothing switches', () => {
+    expect(hasDefaultThresholds({ ...DEFAULT_NOISE_FILTER, enabled: false, smoothing: false })).toBe(true);
+  });
+
+  it('notices changed thresholds', () => {
+    expect(hasDefaultThresholds({ ...DEFAULT_NOISE_FILTER, minMovementMeters: 30 })).toBe(false);
+    expect(hasDefaultThresholds({ ...DEFAULT_NOISE_FILTER, maxAccuracyMeters: 50 })).toBe(false);
+  });
+});
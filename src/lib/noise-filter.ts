@@ -0,0 +1,102 @@
+// GPS noise filtering applied before distances and paths are computed.
+// A stationary phone reports fixes scattered by its accuracy radius; summing
+// every hop between them adds up to kilometers of distance that never happened.
+import type { LocationData } from './storage';
+import { LatLng, distanceBetween } from './geo';
+
+export interface NoiseFilterSettings {
+  // Off shows the raw data
+  enabled: boolean;
+  // Drop fixes reporting a worse accuracy than this; 0 (unknown) is kept
+  maxAccuracyMeters: number;
+  // Drop fixes closer than this to the previous kept fix
+  minMovementMeters: number;
+  // Smooth positions with a Kalman filter weighted by each fix's accuracy
+  smoothing: boolean;
+}
+
+export const DEFAULT_NOISE_FILTER: NoiseFilterSettings = {
+  enabled: true,
+  maxAccuracyMeters: 100,
+  minMovementMeters: 15,
+  smoothing: true,
+};
+
+// Whether the thresholds are the defaults the stored tracker summary is filtered with
+export function hasDefaultThresholds(settings: NoiseFilterSettings): boolean {
+  return settings.maxAccuracyMeters === DEFAULT_NOISE_FILTER.maxAccuracyMeters &&
+    settings.minMovementMeters === DEFAULT_NOISE_FILTER.minMovementMeters;
+}
+
+// Expected movement noise of the Kalman filter, in meters per second. Higher
+// values follow fast movement more closely but smooth less.
+const KALMAN_PROCESS_NOISE = 3;
+// Accuracy assumed for fixes that do not report one
+const UNKNOWN_ACCURACY_METERS = 20;
+
+// Simple constant-position Kalman filter on latitude and longitude, with the
+// measurement variance taken from each fix's reported accuracy
+function kalmanSmooth(locations: LocationData[]): LocationData[] {
+  let latitude = 0;
+  let longitude = 0;
+  let variance = -1;
+  let lastTime = 0;
+
+  return locations.map((loc) => {
+    const accuracy = loc.accuracy > 0 ? loc.accuracy : UNKNOWN_ACCURACY_METERS;
+    const time = new Date(loc.timestamp).getTime();
+
+    if (variance < 0) {
+      latitude = loc.latitude;
+      longitude = loc.longitude;
+      variance = accuracy * accuracy;
+    } else {
+      const seconds = Math.max(0, (time - lastTime) / 1000);
+      variance += seconds * KALMAN_PROCESS_NOISE * KALMAN_PROCESS_NOISE;
+      const gain = variance / (variance + accuracy * accuracy);
+      latitude += gain * (loc.latitude - latitude);
+      longitude += gain * (loc.longitude - longitude);
+      variance = (1 - gain) * variance;
+    }
+    lastTime = time;
+    return { ...loc, latitude, longitude };
+  });
+}
+
+/**
+ * Remove noisy fixes from a history sorted oldest first and optionally smooth
+ * what remains. The first and last kept fixes are always returned so the path
+ * still starts and ends where the device was.
+ */
+export function filterNoise(locations: LocationData[], settings: NoiseFilterSettings = DEFAULT_NOISE_FILTER): LocationData[] {
+  if (!settings.enabled) return locations;
+
+  const accurate = locations.filter(
+    (loc) => settings.maxAccuracyMeters <= 0 || loc.accuracy <= settings.maxAccuracyMeters
+  );
+  const smoothed = settings.smoothing ? kalmanSmooth(accurate) : accurate;
+
+  const kept: LocationData[] = [];
+  smoothed.forEach((loc, index) => {
+    const previous = kept[kept.length - 1];
+    const isLast = index === smoothed.length - 1;
+    if (!previous || isLast || distanceBetween(previous, loc) >= settings.minMovementMeters) {
+      kept.push(loc);
+    }
+  });
+  return kept;
+}
+
+// Whether a single new fix should extend a running filtered distance from
+// `anchor`, the last fix that counted. Used where the full history is not at
+// hand, such as the stored tracker summary.
+export function countsAsMovement(
+  anchor: LatLng,
+  location: LocationData,
+  settings: NoiseFilterSettings = DEFAULT_NOISE_FILTER
+): boolean {
+  if (settings.maxAccuracyMeters > 0 && location.accuracy > settings.maxAccuracyMeters) return false;
+  // A hop shorter than the fix's own uncertainty is indistinguishable from jitter
+  const threshold = Math.max(settings.minMovementMeters, location.accuracy);
+  return distanceBetween(anchor, location) >= threshold;
+}
@@ -0,0 +1,39 @@
+// Firestore-backed tracker repository
+import {
+  getTrackersFromFirebase,
+  getTrackerFromFirebase,
+  getLocationsFromFirebase,
+  createTrackerInFirebase,
+  getOrCreateTrackerInFirebase,
+  addLocationToTrackerInFirebase,
+  updateTrackerInFirebase,
+  deleteTrackerFromFirebase,
+  getHistoryStatsFromFirebase,
+  pruneLocationsInFirebase,
+  importLocationsToFirebase,
+  getDefaultRetentionFromFirebase,
+  setDefaultRetentionInFirebase,
+  subscribeToTrackers,
+  subscribeToTrackerSummaries,
+} from '../firebase-services';
+import type { TrackerRepository } from '../tracker-repository';
+
+export function createFirestoreRepository(): TrackerRepository {
+  return {
+    getTrackers: (range) => getTrackersFromFirebase(range),
+    getTracker: (trackingId, range) => getTrackerFromFirebase(trackingId, range),
+    getLocations: (trackingId, range) => getLocationsFromFirebase(trackingId, range),
+    createTracker: (name, trackingId) => createTrackerInFirebase(name, trackingId),
+    getOrCreateTracker: (trackingId) => getOrCreateTrackerInFirebase(trackingId),
+    addLocation: (trackingId, location) => addLocationToTrackerInFirebase(trackingId, location),
+    updateTracker: (trackingId, updates) => updateTrackerInFirebase(trackingId, updates),
+    deleteTracker: (trackingId) => deleteTrackerFromFirebase(trackingId),
+    getHistoryStats: (trackingId) => getHistoryStatsFromFirebase(trackingId),
+    pruneLocations: (trackingId, before) => pruneLocationsInFirebase(trackingId, before),
+    importLocations: (trackingId, locations) => importLocationsToFirebase(trackingId, locations),
+    getDefaultRetention: () => getDefaultRetentionFromFirebase(),
+    setDefaultRetention: (policy) => setDefaultRetentionInFirebase(policy),
+    subscribe: (callback, onError, range) => subscribeToTrackers(callback, onError, range),
+    subscribeSummaries: (callback, onError) => subscribeToTrackerSummaries(callback, onError),
+  };
+}
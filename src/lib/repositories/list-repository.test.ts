@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryRepository } from './memory-repository';
+import { isStorageError } from '../storage-errors';
+
+describe('createTracker', () => {
+  it('creates a tracker under the given ID', async () => {
+    const repository = createMemoryRepository();
+    await repository.createTracker('Van', 'track_1');
+    expect((await repository.getTracker('track_1'))?.name).toBe('Van');
+  });
+
+  it('refuses an ID that is already taken instead of adding a duplicate', async () => {
+    const repository = createMemoryRepository([
+      { id: 'track_1', name: 'Van', created: '2024-01-01T00:00:00.000Z', locations: [] },
+    ]);
+    const error = await repository.createTracker('Restored van', 'track_1').catch((e: unknown) => e);
+    expect(isStorageError(error, 'already-exists')).toBe(true);
+    const trackers = await repository.getTrackers();
+    expect(trackers).toHaveLength(1);
+    expect(trackers[0].name).toBe('Van');
+  });
+});
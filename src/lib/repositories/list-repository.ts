@@ -0,0 +1,216 @@
+// Tracker repository over a plain list of trackers
+// Shared by the localStorage and in-memory backends, which only differ in where the list lives
+
+import type { LocationData, Tracker } from '../storage';
+import type { TrackerRepository } from '../tracker-repository';
+import { LocationRange, applyLocationRange } from '../location-range';
+import { isRecording } from '../tracker-status';
+import { isExpiredLocation } from '../retention';
+import { StorageError, toStorageError } from '../storage-errors';
+import { summarizeLocations } from '../tracker-summary';
+import { excludeExisting } from '../location-sequence';
+
+export interface TrackerListStore {
+  load(): Tracker[];
+  save(trackers: Tracker[]): void;
+  // Notify when the list changes outside this repository (e.g. another tab)
+  watch?(onChange: () => void): () => void;
+}
+
+// The list keeps full histories, so summaries are computed on read rather than stored
+function withRange(tracker: Tracker, range: LocationRange = {}): Tracker {
+  const result: Tracker = { ...tracker, locations: applyLocationRange(tracker.locations, range) };
+  const summary = summarizeLocations(tracker.locations);
+  if (summary) {
+    result.summary = summary;
+  } else {
+    delete result.summary;
+  }
+  return result;
+}
+
+function withSummaryOnly(tracker: Tracker): Tracker {
+  return { ...withRange(tracker), locations: [] };
+}
+
+function sortNewestFirst(trackers: Tracker[]): Tracker[] {
+  return trackers.sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+}
+
+function newTracker(trackingId: string, name: string): Tracker {
+  return {
+    id: trackingId,
+    name: name || 'Unnamed Tracker',
+    created: new Date().toISOString(),
+    locations: [],
+  };
+}
+
+export function createListRepository(store: TrackerListStore): TrackerRepository {
+  const listeners = new Set<() => void>();
+
+  const notify = () => {
+    listeners.forEach((listener) => listener());
+  };
+
+  const update = (mutate: (trackers: Tracker[]) => void) => {
+    const trackers = store.load();
+    mutate(trackers);
+    store.save(trackers);
+    notify();
+  };
+
+  const findTracker = (trackingId: string) => store.load().find((t) => t.id === trackingId);
+
+  // Emit the list now and on every change; returns an unsubscribe function
+  const watchList = (emitList: (trackers: Tracker[]) => void, onError?: (error: Error) => void) => {
+    const emit = () => {
+      try {
+        emitList(sortNewestFirst(store.load()));
+      } catch (error) {
+        if (onError) onError(toStorageError(error));
+      }
+    };
+
+    listeners.add(emit);
+    const stopWatching = store.watch?.(emit);
+    emit();
+
+    return () => {
+      listeners.delete(emit);
+      stopWatching?.();
+    };
+  };
+
+  return {
+    async getTrackers(range) {
+      return sortNewestFirst(store.load().map((t) => withRange(t, range)));
+    },
+
+    async getTracker(trackingId, range) {
+      const tracker = findTracker(trackingId);
+      return tracker ? withRange(tracker, range) : null;
+    },
+
+    async getLocations(trackingId, range) {
+      return applyLocationRange(findTracker(trackingId)?.locations || [], range);
+    },
+
+    async createTracker(name, trackingId) {
+      if (findTracker(trackingId)) {
+        throw new StorageError('already-exists', `Tracker ${trackingId} already exists`);
+      }
+      const tracker = newTracker(trackingId, name);
+      update((trackers) => trackers.push(tracker));
+      return tracker;
+    },
+
+    async getOrCreateTracker(trackingId) {
+      const existing = findTracker(trackingId);
+      if (existing) return existing;
+      const tracker = newTracker(trackingId, 'Shared Tracker');
+      update((trackers) => trackers.push(tracker));
+      return tracker;
+    },
+
+    async addLocation(trackingId: string, location: LocationData) {
+      // Paused, archived and expired trackers do not accept new fixes, as in the Firestore rules
+      const existing = findTracker(trackingId);
+      if (existing && !isRecording(existing)) {
+        throw new StorageError('permission-denied', 'Tracker is not accepting new locations');
+      }
+
+      update((trackers) => {
+        let tracker = trackers.find((t) => t.id === trackingId);
+        if (!tracker) {
+          // Mirror Firestore: a fix for an unknown ID creates a shared tracker
+          tracker = newTracker(trackingId, 'Shared Tracker');
+          trackers.push(tracker);
+        }
+        // Retried writes carry the same point ID; keep only the first copy
+        if (location.id && tracker.locations.some((loc) => loc.id === location.id)) {
+          return;
+        }
+        tracker.locations.push(location);
+      });
+      return true;
+    },
+
+    async updateTracker(trackingId, updates) {
+      if (!findTracker(trackingId)) return false;
+      update((trackers) => {
+        const tracker = trackers.find((t) => t.id === trackingId) as Tracker;
+        const { expiresAt, retention, ...fields } = updates;
+        Object.assign(tracker, fields);
+        if (expiresAt === null) {
+          delete tracker.expiresAt;
+        } else if (expiresAt !== undefined) {
+          tracker.expiresAt = expiresAt;
+        }
+        if (retention === null) {
+          delete tracker.retention;
+        } else if (retention !== undefined) {
+          tracker.retention = retention;
+        }
+      });
+      return true;
+    },
+
+    async deleteTracker(trackingId) {
+      if (!findTracker(trackingId)) return false;
+      update((trackers) => {
+        trackers.splice(trackers.findIndex((t) => t.id === trackingId), 1);
+      });
+      return true;
+    },
+
+    async getHistoryStats(trackingId) {
+      const locations = findTracker(trackingId)?.locations || [];
+      const oldest = locations.reduce<string | null>(
+        (min, loc) => (min === null || loc.timestamp < min ? loc.timestamp : min),
+        null
+      );
+      return { count: locations.length, oldest };
+    },
+
+    async importLocations(trackingId, locations) {
+      if (!findTracker(trackingId)) return 0;
+      let added: LocationData[] = [];
+      update((trackers) => {
+        const tracker = trackers.find((t) => t.id === trackingId) as Tracker;
+        added = excludeExisting(tracker.locations, locations);
+        tracker.locations = [...tracker.locations, ...added].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      });
+      return added.length;
+    },
+
+    async pruneLocations(trackingId, before) {
+      const tracker = findTracker(trackingId);
+      if (!tracker) return 0;
+      const removed = tracker.locations.filter((loc) => isExpiredLocation(loc, before)).length;
+      if (removed === 0) return 0;
+      update((trackers) => {
+        const stored = trackers.find((t) => t.id === trackingId) as Tracker;
+        stored.locations = stored.locations.filter((loc) => !isExpiredLocation(loc, before));
+      });
+      return removed;
+    },
+
+    // These backends have no account; storage.ts keeps the default in localStorage
+    async getDefaultRetention() {
+      return null;
+    },
+
+    async setDefaultRetention() {
+      return true;
+    },
+
+    subscribe(callback, onError, range) {
+      return watchList((trackers) => callback(trackers.map((t) => withRange(t, range))), onError);
+    },
+
+    subscribeSummaries(callback, onError) {
+      return watchList((trackers) => callback(trackers.map(withSummaryOnly)), onError);
+    },
+  };
+}
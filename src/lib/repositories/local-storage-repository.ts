@@ -0,0 +1,51 @@
+// localStorage-backed tracker repository
+// Used as the offline backend and as the fallback when Firestore is unreachable
+
+import type { Tracker } from '../storage';
+import type { TrackerRepository } from '../tracker-repository';
+import { createListRepository } from './list-repository';
+import { toStorageError } from '../storage-errors';
+
+const STORAGE_KEY = 'geotracker_data';
+
+function loadTrackers(): Tracker[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveTrackers(trackers: Tracker[]): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(trackers));
+  } catch (error) {
+    console.error('Error saving trackers:', error);
+    // Usually a full quota; surface it rather than silently dropping the write
+    throw toStorageError(error);
+  }
+}
+
+// Pick up writes made by other tabs, e.g. a /track page open next to the dashboard
+function watchOtherTabs(onChange: () => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) onChange();
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+export function createLocalStorageRepository(): TrackerRepository {
+  return createListRepository({
+    load: loadTrackers,
+    save: saveTrackers,
+    watch: watchOtherTabs,
+  });
+}
@@ -0,0 +1,18 @@
+// In-memory tracker repository
+// Nothing is persisted, which makes it suitable for demos and tests
+
+import type { Tracker } from '../storage';
+import type { TrackerRepository } from '../tracker-repository';
+import { createListRepository } from './list-repository';
+
+export function createMemoryRepository(initialTrackers: Tracker[] = []): TrackerRepository {
+  // Deep copy so callers never share location arrays with the store
+  let trackers: Tracker[] = JSON.parse(JSON.stringify(initialTrackers));
+
+  return createListRepository({
+    load: () => JSON.parse(JSON.stringify(trackers)),
+    save: (next) => {
+      trackers = next;
+    },
+  });
+}
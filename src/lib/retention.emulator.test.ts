@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { doc, getDoc, serverTimestamp, setDoc, Timestamp } from 'firebase/firestore';
+import type { LocationData } from './storage';
+import { retentionCutoff } from './retention';
+
+// Set by `firebase emulators:exec` (see `npm run test:emulator`); without a
+// running emulator the suite is skipped
+const firestoreHost = process.env.FIRESTORE_EMULATOR_HOST;
+const authHost = process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe.skipIf(!firestoreHost || !authHost)('retention against the Firebase emulator', () => {
+  let firebase: typeof import('./firebase');
+  let services: typeof import('./firebase-services');
+  const trackingId = `retention_test_${Date.now()}`;
+  const now = Date.now();
+
+  const fix = (id: string, daysAgo: number): LocationData => ({
+    id,
+    latitude: 51.5,
+    longitude: -0.12,
+    accuracy: 5,
+    timestamp: new Date(now - daysAgo * DAY).toISOString(),
+  });
+
+  const storedExpiry = async (id: string) => {
+    const snapshot = await getDoc(doc(firebase.db, 'trackers', trackingId, 'locations', id));
+    return (snapshot.data()?.expireAt as Timestamp | undefined)?.toMillis();
+  };
+
+  beforeAll(async () => {
+    // firebase.ts connects to the emulators it finds in these variables on import
+    process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST = firestoreHost;
+    process.env.NEXT_PUBLIC_AUTH_EMULATOR_HOST = authHost;
+    firebase = await import('./firebase');
+    services = await import('./firebase-services');
+
+    const { createUserWithEmailAndPassword } = await import('firebase/auth');
+    await createUserWithEmailAndPassword(firebase.auth, `owner_${now}@example.com`, 'retention-test');
+    await services.createTrackerInFirebase('Retention test', trackingId);
+    await services.updateTrackerInFirebase(trackingId, { retention: '7d' });
+  });
+
+  afterAll(async () => {
+    await services?.deleteTrackerFromFirebase(trackingId);
+  });
+
+  it('stamps each recorded fix with its expiry under the tracker policy', async () => {
+    const recent = fix('recent', 1);
+    await services.addLocationToTrackerInFirebase(trackingId, recent);
+    expect(await storedExpiry('recent')).toBe(new Date(recent.timestamp).getTime() + 7 * DAY);
+  });
+
+  it('stamps imported fixes too', async () => {
+    const added = await services.importLocationsToFirebase(trackingId, [fix('old-1', 10), fix('old-2', 20)]);
+    expect(added).toBe(2);
+    expect(await storedExpiry('old-1')).toBe(now - 10 * DAY + 7 * DAY);
+  });
+
+  it('prunes fixes older than the policy', async () => {
+    const removed = await services.pruneLocationsInFirebase(trackingId, retentionCutoff('7d', now));
+    expect(removed).toBe(2);
+    const stats = await services.getHistoryStatsFromFirebase(trackingId);
+    expect(stats.count).toBe(1);
+    expect(stats.oldest).toBe(fix('recent', 1).timestamp);
+    const tracker = await services.getTrackerFromFirebase(trackingId, { limit: 1 });
+    expect(tracker?.summary?.firstTimestamp).toBe(fix('recent', 1).timestamp);
+  });
+
+  it('re-stamps stored fixes when the policy changes', async () => {
+    await services.updateTrackerInFirebase(trackingId, { retention: '24h' });
+    expect(await storedExpiry('recent')).toBe(now - 1 * DAY + 1 * DAY);
+  });
+
+  it('rejects fixes without an expiry or kept longer than 30 days', async () => {
+    const { id, ...fields } = fix('rogue', 0);
+    const data = { ...fields, receivedAt: serverTimestamp() };
+    const ref = doc(firebase.db, 'trackers', trackingId, 'locations', id as string);
+    await expect(setDoc(ref, data)).rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(
+      setDoc(ref, { ...data, expireAt: Timestamp.fromMillis(now + 60 * DAY) })
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+  });
+
+  it('drops the summary once every fix in it has expired', async () => {
+    await services.pruneLocationsInFirebase(trackingId, new Date(now + DAY).toISOString());
+    const tracker = await services.getTrackerFromFirebase(trackingId, { limit: 1 });
+    expect(tracker?.summary).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+// Location history retention policies
+import type { LocationData, Tracker } from './storage';
+
+// How long a tracker keeps its fixes. There is deliberately no "keep forever":
+// the privacy policy promises movement data is never held longer than 30 days.
+export type RetentionPolicy = '24h' | '7d' | '30d';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const RETENTION_POLICIES: { value: RetentionPolicy; label: string; ms: number }[] = [
+  { value: '24h', label: '24 hours', ms: 24 * HOUR },
+  { value: '7d', label: '7 days', ms: 7 * DAY },
+  { value: '30d', label: '30 days', ms: 30 * DAY },
+];
+
+// Account-wide default for trackers without their own policy
+export const DEFAULT_RETENTION: RetentionPolicy = '30d';
+
+// How often the dashboard re-runs the prune job while it is open
+export const RETENTION_JOB_INTERVAL_MS = HOUR;
+
+export function isRetentionPolicy(value: unknown): value is RetentionPolicy {
+  return RETENTION_POLICIES.some((p) => p.value === value);
+}
+
+export function retentionLabel(policy: RetentionPolicy): string {
+  return RETENTION_POLICIES.find((p) => p.value === policy)?.label ?? policy;
+}
+
+// The policy in force for a tracker: its own, else the account default
+export function getRetentionPolicy(
+  tracker: Pick<Tracker, 'retention'>,
+  accountDefault: RetentionPolicy = DEFAULT_RETENTION
+): RetentionPolicy {
+  return isRetentionPolicy(tracker.retention) ? tracker.retention : accountDefault;
+}
+
+function retentionMs(policy: RetentionPolicy): number {
+  return RETENTION_POLICIES.find((p) => p.value === policy)?.ms ?? 30 * DAY;
+}
+
+// Fixes recorded before this ISO timestamp are expired under the policy
+export function retentionCutoff(policy: RetentionPolicy, now: number = Date.now()): string {
+  return new Date(now - retentionMs(policy)).toISOString();
+}
+
+// When a fix falls out of the retention window. Firestore stores this on each
+// fix as `expireAt`, so its TTL policy deletes fixes without the prune job.
+export function locationExpiry(location: Pick<LocationData, 'timestamp'>, policy: RetentionPolicy): Date {
+  return new Date(new Date(location.timestamp).getTime() + retentionMs(policy));
+}
+
+export function isExpiredLocation(location: Pick<LocationData, 'timestamp'>, cutoff: string): boolean {
+  return location.timestamp < cutoff;
+}
+
+// When the oldest stored fix falls out of the retention window, i.e. when the
+// next prune will actually remove something. Null when nothing is stored.
+export function nextPruneDue(oldest: string | null, policy: RetentionPolicy): string | null {
+  if (!oldest) return null;
+  return new Date(new Date(oldest).getTime() + retentionMs(policy)).toISOString();
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { destinationPoint } from './geo';
+import { FULL_DETAIL_ZOOM, simplifyPath, toleranceForZoom } from './simplify';
+
+const at = (latitude: number, longitude: number) => ({ latitude, longitude });
+
+// Points every 10 m due east from the origin, with an optional northward offset
+const eastward = (count: number, offsetNorth: (i: number) => number = () => 0) =>
+  Array.from({ length: count }, (_, i) => destinationPoint(destinationPoint(at(0, 0), 90, i * 10), 0, offsetNorth(i)));
+
+describe('toleranceForZoom', () => {
+  it('is zero from the full-detail zoom on', () => {
+    expect(toleranceForZoom(FULL_DETAIL_ZOOM, 45)).toBe(0);
+    expect(toleranceForZoom(FULL_DETAIL_ZOOM + 2, 45)).toBe(0);
+  });
+
+  it('halves with every zoom level', () => {
+    expect(toleranceForZoom(10, 0) / toleranceForZoom(11, 0)).toBeCloseTo(2, 10);
+  });
+
+  it('shrinks towards the poles, as the map scale does', () => {
+    expect(toleranceForZoom(10, 60)).toBeCloseTo(toleranceForZoom(10, 0) / 2, 6);
+  });
+});
+
+describe('simplifyPath', () => {
+  it('reduces a straight line to its end points', () => {
+    const line = eastward(50);
+    expect(simplifyPath(line, 1)).toEqual([line[0], line[49]]);
+  });
+
+  it('keeps a corner sharper than the tolerance', () => {
+    const corner = [at(0, 0), destinationPoint(at(0, 0), 90, 1000), destinationPoint(destinationPoint(at(0, 0), 90, 1000), 0, 1000)];
+    expect(simplifyPath(corner, 10)).toEqual(corner);
+  });
+
+  it('drops jitter within the tolerance but keeps detours beyond it', () => {
+    const path = eastward(21, (i) => (i === 10 ? 50 : i % 2));
+    const simplified = simplifyPath(path, 5);
+    expect(simplified).toContain(path[10]);
+    expect(simplified).toHaveLength(5);
+  });
+
+  it('returns the input unchanged with no tolerance or too few points', () => {
+    const line = eastward(10);
+    expect(simplifyPath(line, 0)).toBe(line);
+    expect(simplifyPath(line.slice(0, 2), 100)).toEqual(line.slice(0, 2));
+    expect(simplifyPath([], 100)).toEqual([]);
+  });
+
+  it('handles a week of fixes without overflowing the stack', () => {
+    const long = eastward(40000, (i) => Math.sin(i / 50) * 200);
+    const simplified = simplifyPath(long, 5);
+    expect(simplified.length).toBeGreaterThan(2);
+    expect(simplified.length).toBeLessThan(long.length);
+  });
+});
@@ -0,0 +1,72 @@
+// Douglas-Peucker simplification for drawing long histories on the map. The
+// tolerance follows the zoom level, so a zoomed-out view draws a few hundred
+// points instead of every 15-second fix.
+import { EARTH_RADIUS_METERS, LatLng } from './geo';
+
+// Ground size of one pixel at the equator at zoom 0, with 256px tiles
+const METERS_PER_PIXEL_AT_ZOOM_0 = (2 * Math.PI * EARTH_RADIUS_METERS) / 256;
+
+// How far, in screen pixels, a dropped point may lie from the simplified line
+export const SIMPLIFY_TOLERANCE_PIXELS = 1.5;
+
+// From this zoom on every fix is drawn
+export const FULL_DETAIL_ZOOM = 17;
+
+// Tolerance in meters for a zoom level at a latitude; 0 means full detail
+export function toleranceForZoom(zoom: number, latitude: number): number {
+  if (zoom >= FULL_DETAIL_ZOOM) return 0;
+  const metersPerPixel = (METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos((latitude * Math.PI) / 180)) / 2 ** zoom;
+  return SIMPLIFY_TOLERANCE_PIXELS * metersPerPixel;
+}
+
+/**
+ * Drop points lying within toleranceMeters of the line through their kept
+ * neighbours. The first and last points are always kept. Distances use a flat
+ * projection around the first point, which is accurate enough for one route.
+ */
+export function simplifyPath<T extends LatLng>(points: T[], toleranceMeters: number): T[] {
+  if (points.length <= 2 || toleranceMeters <= 0) return points;
+
+  const metersPerDegree = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  const lngScale = Math.cos((points[0].latitude * Math.PI) / 180);
+  const xy = points.map((p) => [p.longitude * lngScale * metersPerDegree, p.latitude * metersPerDegree]);
+
+  // Squared distance from point p to the segment a-b
+  const segmentDistanceSq = (p: number[], a: number[], b: number[]) => {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0
+      ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq))
+      : 0;
+    const ex = p[0] - (a[0] + t * dx);
+    const ey = p[1] - (a[1] + t * dy);
+    return ex * ex + ey * ey;
+  };
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const toleranceSq = toleranceMeters * toleranceMeters;
+
+  // Iterative rather than recursive so week-long histories cannot overflow the stack
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop() as [number, number];
+    let farthest = -1;
+    let farthestSq = toleranceSq;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistanceSq(xy[i], xy[first], xy[last]);
+      if (d > farthestSq) {
+        farthest = i;
+        farthestSq = d;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
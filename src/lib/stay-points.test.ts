@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData } from './storage';
+import { destinationPoint } from './geo';
+import { collapseStays, detectStayPoints, formatDuration } from './stay-points';
+
+const MINUTE = 60 * 1000;
+const START = Date.parse('2024-03-05T08:00:00.000Z');
+const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+
+// A fix `meters` east of the origin, `minutes` after the start
+const fix = (minutes: number, meters: number): LocationData => ({
+  ...destinationPoint(ORIGIN, 90, meters),
+  accuracy: 5,
+  timestamp: new Date(START + minutes * MINUTE).toISOString(),
+});
+
+// Drive 1 km, park for 10 minutes (with jitter), drive on
+const history = [
+  fix(0, 0),
+  fix(1, 500),
+  fix(2, 1000),
+  fix(4, 1010),
+  fix(7, 995),
+  fix(12, 1005),
+  fix(13, 1500),
+  fix(14, 2000),
+];
+
+describe('detectStayPoints', () => {
+  it('finds a stop that stays within the radius long enough', () => {
+    const [stay, ...rest] = detectStayPoints(history);
+    expect(rest).toEqual([]);
+    expect(stay).toMatchObject({
+      arrival: history[2].timestamp,
+      departure: history[5].timestamp,
+      durationMs: 10 * MINUTE,
+      startIndex: 2,
+      endIndex: 5,
+    });
+  });
+
+  it('places the stay at the centroid of its fixes', () => {
+    const [stay] = detectStayPoints(history);
+    const run = history.slice(2, 6);
+    expect(stay.latitude).toBeCloseTo(run.reduce((sum, loc) => sum + loc.latitude, 0) / run.length, 10);
+    expect(stay.longitude).toBeCloseTo(run.reduce((sum, loc) => sum + loc.longitude, 0) / run.length, 10);
+  });
+
+  it('ignores stops shorter than the minimum duration', () => {
+    expect(detectStayPoints(history, { minDurationMs: 15 * MINUTE })).toEqual([]);
+  });
+
+  it('ignores slow movement that leaves the radius', () => {
+    const walk = Array.from({ length: 20 }, (_, i) => fix(i, i * 30));
+    expect(detectStayPoints(walk)).toEqual([]);
+  });
+
+  it('counts a single silent fix as no stay', () => {
+    expect(detectStayPoints([fix(0, 0)])).toEqual([]);
+    expect(detectStayPoints([])).toEqual([]);
+  });
+});
+
+describe('collapseStays', () => {
+  it('replaces the fixes inside a stay with one entry', () => {
+    const entries = collapseStays(history, detectStayPoints(history));
+    expect(entries.map((e) => e.kind)).toEqual(['fix', 'fix', 'stay', 'fix', 'fix']);
+    expect(entries[3]).toEqual({ kind: 'fix', location: history[6], index: 6 });
+  });
+
+  it('keeps stays whose fixes were filtered out of the shown history', () => {
+    const shown = [history[0], history[1], history[6], history[7]];
+    const entries = collapseStays(shown, detectStayPoints(history));
+    expect(entries.map((e) => e.kind)).toEqual(['fix', 'fix', 'stay', 'fix', 'fix']);
+  });
+
+  it('appends stays after the last shown fix', () => {
+    const entries = collapseStays(history.slice(0, 2), detectStayPoints(history));
+    expect(entries.map((e) => e.kind)).toEqual(['fix', 'fix', 'stay']);
+  });
+});
+
+describe('formatDuration', () => {
+  it('shows minutes under an hour', () => {
+    expect(formatDuration(42 * MINUTE)).toBe('42 min');
+  });
+
+  it('shows hours and padded minutes from an hour on', () => {
+    expect(formatDuration(185 * MINUTE)).toBe('3 h 05 min');
+    expect(formatDuration(60 * MINUTE)).toBe('1 h 00 min');
+  });
+});
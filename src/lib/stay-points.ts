@@ -0,0 +1,117 @@
+// Stay-point detection: runs of fixes that stay within a small radius for long
+// enough to count as a stop rather than slow movement
+import type { LocationData } from './storage';
+import { distanceBetween } from './geo';
+
+export const DEFAULT_STAY_RADIUS_METERS = 50;
+export const DEFAULT_STAY_MIN_DURATION_MS = 5 * 60 * 1000;
+
+export interface StayPointOptions {
+  radiusMeters?: number;
+  minDurationMs?: number;
+}
+
+export interface StayPoint {
+  // Centroid of the fixes in the stay
+  latitude: number;
+  longitude: number;
+  arrival: string;
+  departure: string;
+  durationMs: number;
+  // Indexes of the first and last fix of the stay in the input array
+  startIndex: number;
+  endIndex: number;
+}
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+/**
+ * Find stays in a history sorted oldest first. A stay starts at a fix and runs
+ * while later fixes remain within radiusMeters of it; it counts when it lasts
+ * at least minDurationMs.
+ */
+export function detectStayPoints(locations: LocationData[], options: StayPointOptions = {}): StayPoint[] {
+  const { radiusMeters = DEFAULT_STAY_RADIUS_METERS, minDurationMs = DEFAULT_STAY_MIN_DURATION_MS } = options;
+  const stays: StayPoint[] = [];
+
+  let i = 0;
+  while (i < locations.length) {
+    const anchor = locations[i];
+    let j = i + 1;
+    while (
+      j < locations.length &&
+      distanceBetween(anchor, locations[j]) <= radiusMeters
+    ) {
+      j++;
+    }
+
+    const last = locations[j - 1];
+    const durationMs = toTime(last.timestamp) - toTime(anchor.timestamp);
+    if (j - 1 > i && durationMs >= minDurationMs) {
+      const run = locations.slice(i, j);
+      stays.push({
+        latitude: run.reduce((sum, loc) => sum + loc.latitude, 0) / run.length,
+        longitude: run.reduce((sum, loc) => sum + loc.longitude, 0) / run.length,
+        arrival: anchor.timestamp,
+        departure: last.timestamp,
+        durationMs,
+        startIndex: i,
+        endIndex: j - 1,
+      });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+  return stays;
+}
+
+export type TimelineEntry =
+  | { kind: 'fix'; location: LocationData; index: number }
+  | { kind: 'stay'; stay: StayPoint };
+
+/**
+ * Interleave stays with the fixes recorded outside them, oldest first. Fixes
+ * timestamped within a stay are folded into its entry, so the stays may come
+ * from a different history than the fixes shown (e.g. the unfiltered one).
+ * Each fix entry keeps its index in `locations`.
+ */
+export function collapseStays(locations: LocationData[], stays: StayPoint[]): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+  let next = 0;
+  let current: StayPoint | null = null;
+
+  for (let index = 0; index < locations.length; index++) {
+    const location = locations[index];
+    const time = toTime(location.timestamp);
+    // Stays that ended before this fix go in first, even if no shown fix falls inside them
+    while (next < stays.length && toTime(stays[next].departure) < time) {
+      if (current !== stays[next]) entries.push({ kind: 'stay', stay: stays[next] });
+      next++;
+    }
+
+    const stay = stays[next];
+    if (stay && toTime(stay.arrival) <= time) {
+      if (current !== stay) {
+        current = stay;
+        entries.push({ kind: 'stay', stay });
+      }
+    } else {
+      entries.push({ kind: 'fix', location, index });
+    }
+  }
+
+  for (; next < stays.length; next++) {
+    if (current !== stays[next]) entries.push({ kind: 'stay', stay: stays[next] });
+  }
+  return entries;
+}
+
+// "42 min", "3 h 05 min"
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
@@ -0,0 +1,140 @@
+// Typed errors for tracker storage
+// Backends translate their own failures into a StorageError so callers can branch
+// on a stable code instead of matching SDK error messages.
+
+import { FirestoreError } from 'firebase/firestore';
+
+export type StorageErrorCode =
+  | 'not-found'
+  | 'permission-denied'
+  | 'unauthenticated'
+  | 'quota'
+  | 'offline'
+  | 'invalid-data'
+  | 'already-exists';
+
+export class StorageError extends Error {
+  readonly code: StorageErrorCode;
+
+  constructor(code: StorageErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'StorageError';
+    this.code = code;
+  }
+}
+
+// Firestore error codes mapped onto storage codes. Anything transient
+// (unavailable, timeouts, aborted or internal errors) is reported as offline:
+// the operation may succeed if retried later.
+const FIRESTORE_CODES: Partial<Record<FirestoreError['code'], StorageErrorCode>> = {
+  'not-found': 'not-found',
+  'permission-denied': 'permission-denied',
+  'unauthenticated': 'unauthenticated',
+  'resource-exhausted': 'quota',
+  'invalid-argument': 'invalid-data',
+  'failed-precondition': 'invalid-data',
+  'out-of-range': 'invalid-data',
+  'already-exists': 'already-exists',
+};
+
+// Wrap any error thrown by a backend in a StorageError
+export function toStorageError(error: unknown): StorageError {
+  if (error instanceof StorageError) return error;
+
+  if (error instanceof FirestoreError) {
+    return new StorageError(FIRESTORE_CODES[error.code] ?? 'offline', error.message, { cause: error });
+  }
+
+  // localStorage and IndexedDB report a full disk as a QuotaExceededError DOMException
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new StorageError('quota', error.message, { cause: error });
+  }
+
+  if (error instanceof SyntaxError) {
+    return new StorageError('invalid-data', error.message, { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new StorageError('offline', message, { cause: error });
+}
+
+export function isStorageError(error: unknown, ...codes: StorageErrorCode[]): error is StorageError {
+  return error instanceof StorageError && (codes.length === 0 || codes.includes(error.code));
+}
+
+// The current user may not access the data; retrying will not help until they sign in
+// or the rules change
+export function isAccessError(error: unknown): boolean {
+  const { code } = toStorageError(error);
+  return code === 'permission-denied' || code === 'unauthenticated';
+}
+
+// Errors that will fail the same way on every retry of the same write
+export function isPermanentError(error: unknown): boolean {
+  const { code } = toStorageError(error);
+  return code === 'permission-denied' || code === 'not-found' || code === 'invalid-data' || code === 'already-exists';
+}
+
+export type StorageRecoveryAction = 'retry' | 'refresh' | 'sign-in' | 'review-retention' | 'none';
+
+export interface StorageErrorRecovery {
+  message: string;
+  action: StorageRecoveryAction;
+  actionLabel?: string;
+}
+
+/**
+ * Describes a storage error for the user, with the action most likely to fix it
+ * @param error - Any error thrown by the storage layer
+ * @returns A user-friendly message and a suggested recovery action
+ */
+export function getStorageErrorRecovery(error: unknown): StorageErrorRecovery {
+  switch (toStorageError(error).code) {
+    case 'not-found':
+      return {
+        message: 'This tracker no longer exists. It may have been deleted on another device.',
+        action: 'refresh',
+        actionLabel: '🔄 Refresh List',
+      };
+    case 'permission-denied':
+      return {
+        message: 'Access denied. Please ensure Firestore security rules are properly configured (see FIREBASE_SETUP.md).',
+        action: 'retry',
+        actionLabel: '🔄 Retry',
+      };
+    case 'unauthenticated':
+      return {
+        message: 'Your session has expired. Please sign in again.',
+        action: 'sign-in',
+        actionLabel: '🔐 Sign In',
+      };
+    case 'quota':
+      return {
+        message: 'Storage quota exceeded. Delete old trackers or shorten their retention to free up space.',
+        action: 'review-retention',
+        actionLabel: '🧹 Review Retention',
+      };
+    case 'offline':
+      return {
+        message: 'Unable to reach the server. Check your connection and try again.',
+        action: 'retry',
+        actionLabel: '🔄 Retry',
+      };
+    case 'invalid-data':
+      return {
+        message: 'The data was rejected as invalid. Check the values you entered and try again.',
+        action: 'none',
+      };
+    case 'already-exists':
+      return {
+        message: 'A tracker with this ID already exists.',
+        action: 'refresh',
+        actionLabel: '🔄 Refresh List',
+      };
+  }
+}
+
+// Just the user-facing message, for toasts
+export function getStorageErrorMessage(error: unknown): string {
+  return getStorageErrorRecovery(error).message;
+}
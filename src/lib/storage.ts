@@ -1,15 +1,17 @@
 // Storage utility for client-side data persistence
-// Uses Firebase Firestore as the primary backend with localStorage fallback
-
-import {
-  getTrackersFromFirebase,
-  getTrackerFromFirebase,
-  createTrackerInFirebase,
-  getOrCreateTrackerInFirebase,
-  addLocationToTrackerInFirebase,
-  deleteTrackerFromFirebase,
-  subscribeToTrackers as subscribeToTrackersFirebase,
-} from './firebase-services';
+// Delegates to the configured TrackerRepository (Firebase by default, with localStorage fallback)
+
+import { TrackerRepository, getTrackerRepository, getFallbackRepository } from './tracker-repository';
+import { LocationRange, DEFAULT_HISTORY_LIMIT } from './location-range';
+import { excludeExisting } from './location-sequence';
+import type { BoundingBox, LatLng } from './geo';
+import { enqueueLocation, getPendingCount, replayOutbox, startOutboxReplay } from './location-outbox';
+import { StorageError, toStorageError, isAccessError, isPermanentError } from './storage-errors';
+import { RetentionPolicy, DEFAULT_RETENTION, getRetentionPolicy, retentionCutoff, isRetentionPolicy } from './retention';
+
+export type { LocationRange } from './location-range';
+export { StorageError } from './storage-errors';
+export type { StorageErrorCode } from './storage-errors';
 
 export interface DeviceInfo {
   browser: string;
@@ -20,6 +22,11 @@ export interface DeviceInfo {
 }
 
 export interface LocationData {
+  // Client-generated point ID; writes with the same ID are deduplicated
+  id?: string;
+  // Recording session and per-session sequence number, used to detect missing fixes
+  sessionId?: string;
+  seq?: number;
   latitude: number;
   longitude: number;
   accuracy: number;
@@ -28,14 +35,57 @@ export interface LocationData {
   ip?: string;
 }
 
+// Stored lifecycle status; a missing status means 'active'
+export type TrackerStatus = 'active' | 'paused' | 'archived';
+
 export interface Tracker {
   id: string;
   name: string;
   created: string;
+  description?: string;
+  tags?: string[];
+  // Display color (#rrggbb) used for the tracker's path on the map
+  color?: string;
+  status?: TrackerStatus;
+  // After this time the tracking link stops recording (ISO timestamp)
+  expiresAt?: string;
+  // How long fixes are kept; a missing policy means the account default
+  retention?: RetentionPolicy;
+  // Totals over the whole stored history, maintained on every write
+  summary?: TrackerSummary;
+  // A window of the history; empty when only summaries were requested
   locations: LocationData[];
 }
 
-const STORAGE_KEY = 'geotracker_data';
+export interface TrackerSummary {
+  count: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  lastLocation: LocationData | null;
+  // Cumulative path length in meters, over every fix
+  distanceMeters: number;
+  // Path length counting only movement beyond GPS noise, always with the default
+  // thresholds since the summary is shared by every viewer (see noise-filter.ts);
+  // missing on summaries written before filtering existed
+  filteredDistanceMeters?: number;
+  // Last fix that counted towards filteredDistanceMeters
+  movementAnchor?: LatLng;
+  bounds: BoundingBox;
+}
+
+// Fields the tracker owner can edit; expiresAt: null removes the expiry,
+// retention: null reverts to the account default
+export type TrackerUpdate = Partial<Pick<Tracker, 'name' | 'description' | 'tags' | 'color' | 'status'>> & {
+  expiresAt?: string | null;
+  retention?: RetentionPolicy | null;
+};
+
+// How much history a tracker holds in total, beyond the loaded window
+export interface HistoryStats {
+  count: number;
+  // Timestamp of the oldest stored fix, or null when there are none
+  oldest: string | null;
+}
 
 // Generate unique tracking ID using crypto for better randomness
 export function generateTrackingId(): string {
@@ -47,189 +97,247 @@ export function generateTrackingId(): string {
 }
 
 // ==========================================
-// Firebase-based async functions (primary)
+// Repository-backed async functions
 // ==========================================
 
-// Get all trackers from Firebase
-export async function getTrackersAsync(): Promise<Tracker[]> {
+// Run an operation against the configured backend, retrying it against the
+// localStorage fallback if the primary backend fails
+async function withFallback<T>(
+  operation: (repository: TrackerRepository) => Promise<T>,
+  { propagatePermissionErrors = false } = {}
+): Promise<T> {
   try {
-    return await getTrackersFromFirebase();
+    return await operation(getTrackerRepository());
   } catch (error) {
-    // Check if it's a permissions error - propagate it rather than silently falling back
-    if (error instanceof Error && error.message.includes('insufficient permissions')) {
-      throw error;
+    const storageError = toStorageError(error);
+    const fallback = getFallbackRepository();
+    // Access errors are propagated rather than silently falling back, and
+    // invalid data or a taken ID would be rejected by localStorage just the same
+    if (
+      !fallback ||
+      storageError.code === 'invalid-data' ||
+      storageError.code === 'already-exists' ||
+      (propagatePermissionErrors && isAccessError(storageError))
+    ) {
+      throw storageError;
+    }
+    console.error('Storage backend error, falling back to localStorage:', error);
+    try {
+      return await operation(fallback);
+    } catch (fallbackError) {
+      throw toStorageError(fallbackError);
     }
-    console.error('Firebase error, falling back to localStorage:', error);
-    return getTrackers();
   }
 }
 
-// Get a specific tracker by ID from Firebase
-export async function getTrackerAsync(trackingId: string): Promise<Tracker | null> {
-  try {
-    return await getTrackerFromFirebase(trackingId);
-  } catch (error) {
-    console.error('Firebase error, falling back to localStorage:', error);
-    return getTracker(trackingId) || null;
+// Get all trackers, each with a window of its location history
+export async function getTrackersAsync(range: LocationRange = {}): Promise<Tracker[]> {
+  return withFallback((repository) => repository.getTrackers(range), { propagatePermissionErrors: true });
+}
+
+// Get a specific tracker by ID
+export async function getTrackerAsync(trackingId: string, range: LocationRange = {}): Promise<Tracker | null> {
+  return withFallback((repository) => repository.getTracker(trackingId, range));
+}
+
+// Get a window of a tracker's location history (used to page back through older fixes)
+export async function getLocationsAsync(trackingId: string, range: LocationRange): Promise<LocationData[]> {
+  return withFallback((repository) => repository.getLocations(trackingId, range));
+}
+
+// Get every fix in a range, paging backwards past the per-request history limit.
+// Use for reports and backups; views should load a window with getLocationsAsync.
+export async function getFullHistoryAsync(
+  trackingId: string,
+  range: Pick<LocationRange, 'from' | 'to'> = {}
+): Promise<LocationData[]> {
+  let history: LocationData[] = [];
+  let to = range.to;
+  for (;;) {
+    const page = await getLocationsAsync(trackingId, { ...range, to, limit: DEFAULT_HISTORY_LIMIT });
+    // `to` is exclusive, so step 1ms past the oldest fix to catch others sharing
+    // its timestamp, then drop the ones already collected
+    const added = excludeExisting(history, page);
+    if (added.length === 0) break;
+    history = [...added, ...history];
+    if (page.length < DEFAULT_HISTORY_LIMIT) break;
+    to = new Date(new Date(page[0].timestamp).getTime() + 1).toISOString();
   }
+  return history.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 }
 
-// Create a new tracker in Firebase
+// Create a new tracker
 export async function createTrackerAsync(name: string): Promise<Tracker | null> {
   const trackerId = generateTrackingId();
-  try {
-    const tracker = await createTrackerInFirebase(name, trackerId);
-    return tracker;
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('insufficient permissions')) {
-      throw error;
-    }
-    console.error('Firebase error, falling back to localStorage:', error);
-    return createTracker(name);
-  }
+  return withFallback((repository) => repository.createTracker(name, trackerId), { propagatePermissionErrors: true });
 }
 
-// Get or create a tracker by ID in Firebase (for shared links)
+// Get or create a tracker by ID (for shared links)
 export async function getOrCreateTrackerAsync(trackingId: string): Promise<Tracker | null> {
-  try {
-    return await getOrCreateTrackerInFirebase(trackingId);
-  } catch (error) {
-    console.error('Firebase error, falling back to localStorage:', error);
-    return getOrCreateTracker(trackingId);
-  }
+  return withFallback((repository) => repository.getOrCreateTracker(trackingId));
 }
 
-// Add location to a tracker in Firebase
-export async function addLocationToTrackerAsync(trackingId: string, location: LocationData): Promise<boolean> {
-  try {
-    return await addLocationToTrackerInFirebase(trackingId, location);
-  } catch (error) {
-    console.error('Firebase error, falling back to localStorage:', error);
-    return addLocationToTracker(trackingId, location);
-  }
+// Give up on a location write after this long; the Firestore SDK otherwise waits
+// indefinitely for a server acknowledgement on a flaky connection
+const LOCATION_WRITE_TIMEOUT_MS = 20000;
+
+function writeLocation(trackingId: string, location: LocationData): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Location write timed out')), LOCATION_WRITE_TIMEOUT_MS);
+    getTrackerRepository().addLocation(trackingId, location).then(
+      (result) => { clearTimeout(timer); resolve(result); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
 }
 
-// Delete a tracker from Firebase
-export async function deleteTrackerAsync(trackingId: string): Promise<boolean> {
+// Put a fix in the outbox. Throws a StorageError if the fix could not be kept
+// anywhere, so the caller can tell the user it was lost.
+async function queueLocation(trackingId: string, location: LocationData): Promise<void> {
   try {
-    return await deleteTrackerFromFirebase(trackingId);
+    await enqueueLocation(trackingId, location);
   } catch (error) {
-    if (error instanceof Error && error.message.includes('insufficient permissions')) {
-      throw error;
-    }
-    console.error('Firebase error, falling back to localStorage:', error);
-    return deleteTracker(trackingId);
+    console.error('Location outbox unavailable, fix not saved:', error);
+    throw toStorageError(error);
   }
 }
 
-// Subscribe to real-time tracker updates
-export function subscribeToTrackers(
-  callback: (trackers: Tracker[]) => void,
-  onError?: (error: Error) => void
-): () => void {
-  return subscribeToTrackersFirebase(callback, onError);
-}
-
-// ==========================================
-// LocalStorage-based sync functions (fallback)
-// ==========================================
-
-// Get all trackers from localStorage
-export function getTrackers(): Tracker[] {
-  if (typeof window === 'undefined') return [];
-  
-  try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : [];
-  } catch {
-    return [];
+// What happened to a fix handed to addLocationToTrackerAsync
+export type LocationWriteResult = 'saved' | 'queued' | 'rejected';
+
+// Add location to a tracker. A fix that could not be uploaded is queued in the
+// offline outbox instead; throws if it could not be queued either.
+export async function addLocationToTrackerAsync(trackingId: string, location: LocationData): Promise<LocationWriteResult> {
+  const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  // Queue behind earlier fixes so the outbox replays everything in recording order
+  if (offline || (await getPendingCount()) > 0) {
+    await queueLocation(trackingId, location);
+    if (!offline) replayOutbox(writeLocation);
+    return 'queued';
   }
-}
 
-// Save trackers to localStorage
-export function saveTrackers(trackers: Tracker[]): void {
-  if (typeof window === 'undefined') return;
-  
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(trackers));
+    return (await writeLocation(trackingId, location)) ? 'saved' : 'rejected';
   } catch (error) {
-    console.error('Error saving trackers:', error);
+    // A rejected fix (e.g. the tracker was paused) would be rejected again on replay
+    if (isPermanentError(error)) {
+      console.error('Location rejected by storage backend, not queueing:', error);
+      return 'rejected';
+    }
+    console.error('Storage backend error, queueing location for replay:', error);
+    await queueLocation(trackingId, location);
+    return 'queued';
   }
 }
 
-// Create a new tracker
-export function createTracker(name: string): Tracker {
-  const tracker: Tracker = {
-    id: generateTrackingId(),
-    name: name || 'Unnamed Tracker',
-    created: new Date().toISOString(),
-    locations: [],
-  };
-
-  const trackers = getTrackers();
-  trackers.push(tracker);
-  saveTrackers(trackers);
+// Start uploading queued fixes; returns a function that stops the replay loop
+export function startLocationOutboxReplay(): () => void {
+  return startOutboxReplay(writeLocation);
+}
 
-  return tracker;
+// Update a tracker's editable metadata
+export async function updateTrackerAsync(trackingId: string, updates: TrackerUpdate): Promise<boolean> {
+  return withFallback((repository) => repository.updateTracker(trackingId, updates), { propagatePermissionErrors: true });
 }
 
-// Create a tracker with a specific ID (for shared links)
-export function createTrackerWithId(trackingId: string, name: string = 'Shared Tracker'): Tracker {
-  const tracker: Tracker = {
-    id: trackingId,
-    name: name,
-    created: new Date().toISOString(),
-    locations: [],
-  };
+// Delete a tracker
+export async function deleteTrackerAsync(trackingId: string): Promise<boolean> {
+  return withFallback((repository) => repository.deleteTracker(trackingId), { propagatePermissionErrors: true });
+}
 
-  const trackers = getTrackers();
-  trackers.push(tracker);
-  saveTrackers(trackers);
+// Add imported fixes to a tracker without duplicating ones it already holds.
+// Returns the number of fixes added.
+export async function importLocationsAsync(trackingId: string, locations: LocationData[]): Promise<number> {
+  return withFallback((repository) => repository.importLocations(trackingId, locations), { propagatePermissionErrors: true });
+}
 
-  return tracker;
+// Recreate a tracker from a backup under the given ID, with its metadata and
+// full history. Returns the number of fixes restored.
+export async function restoreTrackerAsync(tracker: Tracker, trackingId: string = tracker.id): Promise<number> {
+  const created = await withFallback(
+    (repository) => repository.createTracker(tracker.name, trackingId),
+    { propagatePermissionErrors: true }
+  );
+  if (!created) {
+    throw new StorageError('unauthenticated', 'Sign in to restore trackers');
+  }
+  const added = await importLocationsAsync(trackingId, tracker.locations);
+  await updateTrackerAsync(trackingId, {
+    ...(tracker.description ? { description: tracker.description } : {}),
+    ...(tracker.tags ? { tags: tracker.tags } : {}),
+    ...(tracker.color ? { color: tracker.color } : {}),
+    ...(tracker.status ? { status: tracker.status } : {}),
+    ...(tracker.expiresAt ? { expiresAt: tracker.expiresAt } : {}),
+    ...(tracker.retention ? { retention: tracker.retention } : {}),
+  });
+  return added;
 }
 
-// Get a specific tracker by ID
-export function getTracker(trackingId: string): Tracker | undefined {
-  const trackers = getTrackers();
-  return trackers.find(t => t.id === trackingId);
+// Count a tracker's stored fixes and find the oldest one
+export async function getHistoryStatsAsync(trackingId: string): Promise<HistoryStats> {
+  return withFallback((repository) => repository.getHistoryStats(trackingId));
 }
 
-// Get or create a tracker by ID (for shared links)
-export function getOrCreateTracker(trackingId: string): Tracker {
-  let tracker = getTracker(trackingId);
-  if (!tracker) {
-    tracker = createTrackerWithId(trackingId);
+// Delete every fix that has outlived its tracker's retention policy.
+// Returns the number of fixes removed.
+export async function pruneExpiredLocationsAsync(
+  trackers: Tracker[],
+  accountDefault: RetentionPolicy = DEFAULT_RETENTION,
+  now: number = Date.now()
+): Promise<number> {
+  const repository = getTrackerRepository();
+  let removed = 0;
+  for (const tracker of trackers) {
+    const cutoff = retentionCutoff(getRetentionPolicy(tracker, accountDefault), now);
+    try {
+      removed += await repository.pruneLocations(tracker.id, cutoff);
+    } catch (error) {
+      // Keep going; the next run retries trackers that failed
+      console.error(`Error pruning history for ${tracker.id}:`, error);
+    }
   }
-  return tracker;
+  return removed;
 }
 
-// Add location to a tracker
-export function addLocationToTracker(trackingId: string, location: LocationData): boolean {
-  const trackers = getTrackers();
-  const tracker = trackers.find(t => t.id === trackingId);
+const RETENTION_DEFAULT_KEY = 'geotracker_retention_default';
 
-  if (tracker) {
-    tracker.locations.push(location);
-    saveTrackers(trackers);
-    return true;
+// Get the account-wide retention default
+export async function getDefaultRetentionAsync(): Promise<RetentionPolicy> {
+  try {
+    const stored = await getTrackerRepository().getDefaultRetention();
+    if (stored) return stored;
+  } catch (error) {
+    console.error('Error loading retention default:', error);
   }
-
-  return false;
+  if (typeof window === 'undefined') return DEFAULT_RETENTION;
+  const local = localStorage.getItem(RETENTION_DEFAULT_KEY);
+  return isRetentionPolicy(local) ? local : DEFAULT_RETENTION;
 }
 
-// Delete a tracker
-export function deleteTracker(trackingId: string): boolean {
-  const trackers = getTrackers();
-  const index = trackers.findIndex(t => t.id === trackingId);
-
-  if (index !== -1) {
-    trackers.splice(index, 1);
-    saveTrackers(trackers);
-    return true;
+// Set the account-wide retention default
+export async function setDefaultRetentionAsync(policy: RetentionPolicy): Promise<boolean> {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(RETENTION_DEFAULT_KEY, policy);
   }
+  return withFallback((repository) => repository.setDefaultRetention(policy), { propagatePermissionErrors: true });
+}
 
-  return false;
+// Subscribe to tracker metadata and summaries only; `locations` is always empty.
+// Load history separately for the trackers actually being viewed.
+export function subscribeToTrackerSummaries(
+  callback: (trackers: Tracker[]) => void,
+  onError?: (error: Error) => void
+): () => void {
+  return getTrackerRepository().subscribeSummaries(callback, onError);
+}
+
+// Subscribe to real-time tracker updates, streaming only the given window of history
+export function subscribeToTrackers(
+  callback: (trackers: Tracker[]) => void,
+  onError?: (error: Error) => void,
+  range: LocationRange = {}
+): () => void {
+  return getTrackerRepository().subscribe(callback, onError, range);
 }
 
 // Get device info from browser
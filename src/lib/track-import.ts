@@ -0,0 +1,190 @@
+// Read tracker histories from our own JSON/CSV exports and from GPX files
+import type { DeviceInfo, LocationData } from './storage';
+import { parseCSV } from './formats/csv';
+import { parseGPX } from './formats/gpx';
+
+export type ImportFormat = 'json' | 'csv' | 'gpx';
+
+export interface ImportedTrack {
+  name: string;
+  // Tracker ID in the source file, when it came from one of our exports
+  sourceId?: string;
+  // Valid fixes, oldest first
+  locations: LocationData[];
+  // Rows or points dropped for bad coordinates or timestamps
+  skipped: number;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  tracks: ImportedTrack[];
+}
+
+// One point as read from a file, before validation
+type RawPoint = Record<string, unknown>;
+
+// Accept a fix only with finite in-range coordinates and a parseable timestamp,
+// normalised to an ISO string so stored timestamps keep sorting lexically
+function toLocation(raw: RawPoint): LocationData | null {
+  const latitude = Number(raw.latitude);
+  const longitude = Number(raw.longitude);
+  if (raw.latitude === '' || raw.longitude === '' || raw.latitude == null || raw.longitude == null) return null;
+  if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) return null;
+  if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) return null;
+
+  if (typeof raw.timestamp !== 'string' && typeof raw.timestamp !== 'number') return null;
+  const time = new Date(raw.timestamp);
+  if (Number.isNaN(time.getTime())) return null;
+
+  const accuracy = Number(raw.accuracy);
+  const location: LocationData = {
+    latitude,
+    longitude,
+    accuracy: Number.isFinite(accuracy) && accuracy >= 0 ? accuracy : 0,
+    timestamp: time.toISOString(),
+  };
+  if (typeof raw.id === 'string' && raw.id) location.id = raw.id;
+  if (typeof raw.sessionId === 'string' && typeof raw.seq === 'number') {
+    location.sessionId = raw.sessionId;
+    location.seq = raw.seq;
+  }
+  if (raw.deviceInfo && typeof raw.deviceInfo === 'object') location.deviceInfo = raw.deviceInfo as DeviceInfo;
+  if (typeof raw.ip === 'string' && raw.ip) location.ip = raw.ip;
+  return location;
+}
+
+function toTrack(name: string, rawPoints: RawPoint[], sourceId?: string): ImportedTrack {
+  const locations: LocationData[] = [];
+  for (const raw of rawPoints) {
+    const location = toLocation(raw);
+    if (location) locations.push(location);
+  }
+  locations.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return {
+    name: name || 'Imported Tracker',
+    ...(sourceId ? { sourceId } : {}),
+    locations,
+    skipped: rawPoints.length - locations.length,
+  };
+}
+
+// A single exported tracker, a bulk export ({ trackers: [...] }) or a bare array of trackers
+function parseTrackerJSON(text: string): ImportedTrack[] {
+  const data = JSON.parse(text);
+  const trackers: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.trackers) ? data.trackers : [data];
+
+  return trackers.map((tracker, index) => {
+    const t = (tracker ?? {}) as { id?: unknown; name?: unknown; locations?: unknown };
+    if (!Array.isArray(t.locations)) {
+      throw new Error(`Tracker ${index + 1} has no locations array`);
+    }
+    return toTrack(
+      typeof t.name === 'string' ? t.name : `Imported Tracker ${index + 1}`,
+      t.locations as RawPoint[],
+      typeof t.id === 'string' ? t.id : undefined
+    );
+  });
+}
+
+// Single-tracker CSV export, or the bulk export with leading Tracker ID / Tracker Name columns
+function parseTrackerCSV(text: string, fallbackName: string): ImportedTrack[] {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) throw new Error('The CSV file is empty');
+
+  const column = (name: string) => header.findIndex((h) => h.trim().toLowerCase() === name);
+  const cols = {
+    trackerId: column('tracker id'),
+    trackerName: column('tracker name'),
+    timestamp: column('timestamp'),
+    latitude: column('latitude'),
+    longitude: column('longitude'),
+    accuracy: column('accuracy (m)'),
+    browser: column('browser'),
+    os: column('os'),
+    platform: column('platform'),
+    screen: column('screen'),
+    ip: column('ip address'),
+  };
+  if (cols.timestamp < 0 || cols.latitude < 0 || cols.longitude < 0) {
+    throw new Error('The CSV file needs Timestamp, Latitude and Longitude columns');
+  }
+
+  const groups = new Map<string, { name: string; points: RawPoint[] }>();
+  for (const row of rows) {
+    const id = cols.trackerId >= 0 ? row[cols.trackerId] : '';
+    if (!groups.has(id)) {
+      groups.set(id, { name: (cols.trackerName >= 0 && row[cols.trackerName]) || fallbackName, points: [] });
+    }
+    const cell = (index: number) => (index >= 0 ? row[index] ?? '' : '');
+    const browser = cell(cols.browser);
+    groups.get(id)?.points.push({
+      timestamp: cell(cols.timestamp),
+      latitude: cell(cols.latitude),
+      longitude: cell(cols.longitude),
+      accuracy: cell(cols.accuracy),
+      ip: cell(cols.ip),
+      deviceInfo: browser
+        ? { browser, os: cell(cols.os), platform: cell(cols.platform), screen: cell(cols.screen), userAgent: 'Unknown' }
+        : undefined,
+    });
+  }
+
+  return Array.from(groups.entries()).map(([id, group]) => toTrack(group.name, group.points, id || undefined));
+}
+
+// Plain GPX carries no accuracy, so points without our extension get 0 (unknown)
+function parseGPXTracks(text: string): ImportedTrack[] {
+  return parseGPX(text).map((track) =>
+    toTrack(
+      track.name,
+      track.points.map((p) => ({
+        latitude: p.latitude,
+        longitude: p.longitude,
+        accuracy: p.accuracy,
+        timestamp: p.time ?? undefined,
+      }))
+    )
+  );
+}
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json' || extension === 'gpx' || extension === 'csv') return extension;
+  const start = text.trimStart();
+  if (start.startsWith('{') || start.startsWith('[')) return 'json';
+  if (start.startsWith('<')) return 'gpx';
+  return null;
+}
+
+// Parse an uploaded file; throws with a user-readable message when it cannot be read
+export function parseImportFile(fileName: string, text: string): ImportResult {
+  const format = detectImportFormat(fileName, text);
+  if (!format) {
+    throw new Error('Unsupported file type. Use a JSON or CSV export, or a GPX file.');
+  }
+
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'Imported Tracker';
+  let tracks: ImportedTrack[];
+  try {
+    switch (format) {
+      case 'json':
+        tracks = parseTrackerJSON(text);
+        break;
+      case 'csv':
+        tracks = parseTrackerCSV(text, baseName);
+        break;
+      case 'gpx':
+        tracks = parseGPXTracks(text);
+        break;
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read ${fileName}: ${reason}`);
+  }
+
+  tracks = tracks.filter((track) => track.locations.length > 0 || track.skipped > 0);
+  if (tracks.length === 0) {
+    throw new Error(`${fileName} contains no location points`);
+  }
+  return { format, tracks };
+}
@@ -0,0 +1,31 @@
+// Stable display colors for trackers
+import type { Tracker } from './storage';
+
+// Palette offered in the dashboard and used for trackers without a chosen color
+export const TRACKER_COLORS = [
+  '#00ff88', '#00ccff', '#ff00ff', '#ffcc00', '#ff3366',
+  '#66ff66', '#6699ff', '#ff66cc', '#ffff66', '#ff9933',
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export function isValidColor(color: string): boolean {
+  return HEX_COLOR.test(color);
+}
+
+// Hash the tracker ID so an uncolored tracker keeps the same palette entry across sessions
+function paletteIndex(id: string): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % TRACKER_COLORS.length;
+}
+
+// The tracker's chosen color, or a stable palette color derived from its ID
+export function getTrackerColor(tracker: Pick<Tracker, 'id' | 'color'>): string {
+  if (tracker.color && isValidColor(tracker.color)) {
+    return tracker.color;
+  }
+  return TRACKER_COLORS[paletteIndex(tracker.id)];
+}
@@ -0,0 +1,99 @@
+// Storage backend abstraction for trackers and their location history
+// The backend is chosen at startup from NEXT_PUBLIC_STORAGE_BACKEND
+
+import type { HistoryStats, LocationData, Tracker, TrackerUpdate } from './storage';
+import type { LocationRange } from './location-range';
+import type { RetentionPolicy } from './retention';
+import { createFirestoreRepository } from './repositories/firestore-repository';
+import { createLocalStorageRepository } from './repositories/local-storage-repository';
+import { createMemoryRepository } from './repositories/memory-repository';
+
+export interface TrackerRepository {
+  // Get all trackers visible to the current user, each with a window of its history
+  getTrackers(range?: LocationRange): Promise<Tracker[]>;
+  // Get a single tracker with a window of its history
+  getTracker(trackingId: string, range?: LocationRange): Promise<Tracker | null>;
+  // Get a window of a tracker's history without its metadata
+  getLocations(trackingId: string, range: LocationRange): Promise<LocationData[]>;
+  // Create a tracker under a new ID; throws an 'already-exists' StorageError if the ID is taken
+  createTracker(name: string, trackingId: string): Promise<Tracker | null>;
+  // Get a tracker, creating a shared tracker if it does not exist yet
+  getOrCreateTracker(trackingId: string): Promise<Tracker | null>;
+  // Append a fix, creating a shared tracker if it does not exist yet
+  addLocation(trackingId: string, location: LocationData): Promise<boolean>;
+  // Change the owner-editable metadata (name, description, tags, color, status, expiry, retention)
+  updateTracker(trackingId: string, updates: TrackerUpdate): Promise<boolean>;
+  deleteTracker(trackingId: string): Promise<boolean>;
+  // Count all stored fixes and find the oldest
+  getHistoryStats(trackingId: string): Promise<HistoryStats>;
+  // Add many fixes at once, skipping ones already stored; returns how many were added
+  importLocations(trackingId: string, locations: LocationData[]): Promise<number>;
+  // Delete fixes recorded before `before` (ISO timestamp); returns how many were removed
+  pruneLocations(trackingId: string, before: string): Promise<number>;
+  // Account-wide retention default; null when none has been saved
+  getDefaultRetention(): Promise<RetentionPolicy | null>;
+  setDefaultRetention(policy: RetentionPolicy): Promise<boolean>;
+  // Stream tracker metadata and summaries without any history; returns an unsubscribe function
+  subscribeSummaries(callback: (trackers: Tracker[]) => void, onError?: (error: Error) => void): () => void;
+  // Stream tracker updates; returns an unsubscribe function
+  subscribe(
+    callback: (trackers: Tracker[]) => void,
+    onError?: (error: Error) => void,
+    range?: LocationRange
+  ): () => void;
+}
+
+export type StorageBackend = 'firebase' | 'local' | 'memory';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['firebase', 'local', 'memory'];
+
+// Read the configured backend, defaulting to Firebase
+export function getStorageBackend(): StorageBackend {
+  const configured = process.env.NEXT_PUBLIC_STORAGE_BACKEND as StorageBackend | undefined;
+  if (configured && STORAGE_BACKENDS.includes(configured)) {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown storage backend "${configured}", using firebase`);
+  }
+  return 'firebase';
+}
+
+function createRepository(backend: StorageBackend): TrackerRepository {
+  switch (backend) {
+    case 'local':
+      return createLocalStorageRepository();
+    case 'memory':
+      return createMemoryRepository();
+    default:
+      return createFirestoreRepository();
+  }
+}
+
+let repository: TrackerRepository | null = null;
+let fallbackRepository: TrackerRepository | null = null;
+
+// Get the repository for the configured backend (created once per page load)
+export function getTrackerRepository(): TrackerRepository {
+  if (!repository) {
+    repository = createRepository(getStorageBackend());
+  }
+  return repository;
+}
+
+// Get the repository used when the primary backend fails.
+// Only the Firebase backend has one: the browser's localStorage.
+export function getFallbackRepository(): TrackerRepository | null {
+  if (getStorageBackend() !== 'firebase') {
+    return null;
+  }
+  if (!fallbackRepository) {
+    fallbackRepository = createLocalStorageRepository();
+  }
+  return fallbackRepository;
+}
+
+// Replace the active repository, e.g. with a seeded in-memory one for tests
+export function setTrackerRepository(next: TrackerRepository): void {
+  repository = next;
+}
@@ -0,0 +1,38 @@
+// Tracker lifecycle: active, paused, archived and expired
+import type { Tracker, TrackerStatus } from './storage';
+
+// Effective state of a tracker; 'expired' is derived from expiresAt rather than stored
+export type TrackerState = TrackerStatus | 'expired';
+
+export function getTrackerState(
+  tracker: Pick<Tracker, 'status' | 'expiresAt'>,
+  now: number = Date.now()
+): TrackerState {
+  if (tracker.status === 'archived') return 'archived';
+  if (tracker.expiresAt && new Date(tracker.expiresAt).getTime() <= now) return 'expired';
+  if (tracker.status === 'paused') return 'paused';
+  return 'active';
+}
+
+// Only active trackers accept new location fixes
+export function isRecording(tracker: Pick<Tracker, 'status' | 'expiresAt'>): boolean {
+  return getTrackerState(tracker) === 'active';
+}
+
+export function isArchived(tracker: Pick<Tracker, 'status'>): boolean {
+  return tracker.status === 'archived';
+}
+
+// Explanation shown on the tracking page when a link no longer records
+export function getRecordingBlockedMessage(tracker: Pick<Tracker, 'status' | 'expiresAt'>): string | null {
+  switch (getTrackerState(tracker)) {
+    case 'paused':
+      return '⏸ This tracking link has been paused by its owner. Your location is not being recorded.';
+    case 'archived':
+      return '🗄 This tracking link has been closed by its owner. Your location is not being recorded.';
+    case 'expired':
+      return `⌛ This tracking link expired on ${new Date(tracker.expiresAt as string).toLocaleString()}. Your location is not being recorded.`;
+    default:
+      return null;
+  }
+}
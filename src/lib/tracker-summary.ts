@@ -0,0 +1,76 @@
+// Denormalized per-tracker summary, kept on the tracker document so lists and
+// maps can show the latest fix, count and distance without loading history
+import type { LocationData, Tracker, TrackerSummary } from './storage';
+import { distanceBetween } from './geo';
+import { countsAsMovement } from './noise-filter';
+
+// Fold one new fix into a summary. Fixes arriving out of order (e.g. replayed
+// from the offline outbox) update the count, time span and bounds, but only a
+// fix newer than the last one extends the distance and becomes the latest.
+export function extendSummary(summary: TrackerSummary | undefined, location: LocationData): TrackerSummary {
+  if (!summary || summary.count === 0) {
+    return {
+      count: 1,
+      firstTimestamp: location.timestamp,
+      lastTimestamp: location.timestamp,
+      lastLocation: location,
+      distanceMeters: 0,
+      filteredDistanceMeters: 0,
+      movementAnchor: { latitude: location.latitude, longitude: location.longitude },
+      bounds: {
+        minLat: location.latitude,
+        maxLat: location.latitude,
+        minLng: location.longitude,
+        maxLng: location.longitude,
+      },
+    };
+  }
+
+  const isNewest = location.timestamp >= summary.lastTimestamp;
+  const last = summary.lastLocation;
+  // Older summaries have no anchor yet; start filtering from the latest fix
+  const anchor = summary.movementAnchor ?? (last ? { latitude: last.latitude, longitude: last.longitude } : null);
+  const moved = isNewest && anchor !== null && countsAsMovement(anchor, location);
+  return {
+    count: summary.count + 1,
+    firstTimestamp: location.timestamp < summary.firstTimestamp ? location.timestamp : summary.firstTimestamp,
+    lastTimestamp: isNewest ? location.timestamp : summary.lastTimestamp,
+    lastLocation: isNewest ? location : last,
+    distanceMeters: isNewest && last
+      ? summary.distanceMeters + distanceBetween(last, location)
+      : summary.distanceMeters,
+    filteredDistanceMeters: (summary.filteredDistanceMeters ?? summary.distanceMeters) +
+      (moved && anchor ? distanceBetween(anchor, location) : 0),
+    ...(moved
+      ? { movementAnchor: { latitude: location.latitude, longitude: location.longitude } }
+      : anchor ? { movementAnchor: anchor } : {}),
+    bounds: {
+      minLat: Math.min(summary.bounds.minLat, location.latitude),
+      maxLat: Math.max(summary.bounds.maxLat, location.latitude),
+      minLng: Math.min(summary.bounds.minLng, location.longitude),
+      maxLng: Math.max(summary.bounds.maxLng, location.longitude),
+    },
+  };
+}
+
+// Build a summary from a full history (oldest first); undefined when there are no fixes
+export function summarizeLocations(locations: LocationData[]): TrackerSummary | undefined {
+  const sorted = [...locations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return sorted.reduce<TrackerSummary | undefined>((summary, loc) => extendSummary(summary, loc), undefined);
+}
+
+// Latest fix from the summary, or from loaded history for trackers without one
+export function getLatestLocation(tracker: Tracker): LocationData | null {
+  if (tracker.summary) return tracker.summary.lastLocation;
+  return tracker.locations.length > 0 ? tracker.locations[tracker.locations.length - 1] : null;
+}
+
+// Total distance for list badges: noise-filtered with the default thresholds
+// unless raw is requested
+export function getSummaryDistance(summary: TrackerSummary, raw: boolean = false): number {
+  return raw ? summary.distanceMeters : summary.filteredDistanceMeters ?? summary.distanceMeters;
+}
+
+export function getLocationCount(tracker: Tracker): number {
+  return tracker.summary ? tracker.summary.count : tracker.locations.length;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { LocationData } from './storage';
+import { destinationPoint, distanceBetween } from './geo';
+import { findTrip, splitTrips, tripRange, tripStats } from './trips';
+
+const MINUTE = 60 * 1000;
+const START = Date.parse('2024-03-05T08:00:00.000Z');
+const ORIGIN = { latitude: 51.5, longitude: -0.12 };
+
+// A fix `meters` east of the origin, `minutes` after the start
+const fix = (minutes: number, meters: number): LocationData => ({
+  ...destinationPoint(ORIGIN, 90, meters),
+  accuracy: 5,
+  timestamp: new Date(START + minutes * MINUTE).toISOString(),
+});
+
+// One fix a minute, moving 500 m each
+const drive = (fromMinute: number, count: number, fromMeters: number) =>
+  Array.from({ length: count }, (_, i) => fix(fromMinute + i, fromMeters + i * 500));
+
+describe('splitTrips', () => {
+  it('keeps continuous movement in one trip', () => {
+    const history = drive(0, 10, 0);
+    const trips = splitTrips(history);
+    expect(trips).toHaveLength(1);
+    expect(trips[0]).toEqual({ start: history[0].timestamp, end: history[9].timestamp, locations: history });
+  });
+
+  it('splits at a gap in recording', () => {
+    const trips = splitTrips([...drive(0, 5, 0), ...drive(30, 5, 10000)]);
+    expect(trips.map((trip) => trip.locations.length)).toEqual([5, 5]);
+  });
+
+  it('splits at a long stop, sharing its first and last fix with the trips around it', () => {
+    const parked = [fix(5, 2510), fix(15, 2505), fix(25, 2500)];
+    const history = [...drive(0, 5, 0), ...parked, ...drive(26, 5, 3000)];
+    const trips = splitTrips(history);
+    expect(trips).toHaveLength(2);
+    expect(trips[0].end).toBe(parked[0].timestamp);
+    expect(trips[1].start).toBe(parked[2].timestamp);
+    expect(trips.flatMap((trip) => trip.locations)).not.toContain(parked[1]);
+  });
+
+  it('keeps short stops inside the trip', () => {
+    const history = [...drive(0, 5, 0), fix(8, 2000), ...drive(9, 5, 2500)];
+    expect(splitTrips(history)).toHaveLength(1);
+  });
+
+  it('drops single-fix trips', () => {
+    expect(splitTrips([fix(0, 0), ...drive(30, 3, 5000)])).toHaveLength(1);
+    expect(splitTrips([fix(0, 0)])).toEqual([]);
+  });
+});
+
+describe('tripStats', () => {
+  it('sums the distance and derives the average and top speed', () => {
+    const locations = [fix(0, 0), fix(1, 600), fix(2, 900)];
+    const stats = tripStats(locations);
+    expect(stats.durationMs).toBe(2 * MINUTE);
+    expect(stats.distanceMeters).toBeCloseTo(900, 0);
+    expect(stats.averageSpeed).toBeCloseTo(900 / 120, 2);
+    expect(stats.maxSpeed).toBeCloseTo(distanceBetween(locations[0], locations[1]) / 60, 6);
+  });
+
+  it('is all zeros for a single fix', () => {
+    expect(tripStats([fix(0, 0)])).toEqual({ durationMs: 0, distanceMeters: 0, averageSpeed: 0, maxSpeed: 0 });
+  });
+});
+
+describe('findTrip and tripRange', () => {
+  const trips = splitTrips([...drive(0, 5, 0), ...drive(30, 5, 10000)]);
+
+  it('finds a trip by its start', () => {
+    expect(findTrip(trips, trips[1].start)).toBe(trips[1]);
+    expect(findTrip(trips, 'missing')).toBeNull();
+    expect(findTrip(trips, null)).toBeNull();
+  });
+
+  it('covers the last fix despite the exclusive upper bound', () => {
+    const range = tripRange(trips[0]);
+    expect(range.from).toBe(trips[0].start);
+    expect(Date.parse(range.to as string)).toBe(Date.parse(trips[0].end) + 1);
+  });
+});
@@ -0,0 +1,109 @@
+// Trip segmentation: a history is split into trips wherever the device went
+// quiet for a while or stayed put long enough to count as a stop
+import type { LocationData } from './storage';
+import type { LocationRange } from './location-range';
+import { pathDistance, speedBetween } from './geo';
+import { detectStayPoints } from './stay-points';
+
+// Silence between two fixes that ends a trip
+export const TRIP_GAP_MS = 15 * 60 * 1000;
+// Stop length that ends a trip; shorter stops (traffic, deliveries) stay inside it
+export const TRIP_STOP_MS = 15 * 60 * 1000;
+
+export interface TripOptions {
+  gapMs?: number;
+  stopMs?: number;
+}
+
+export interface Trip {
+  // Timestamps of the first and last fix, which also identify the trip
+  start: string;
+  end: string;
+  locations: LocationData[];
+}
+
+export interface TripStats {
+  durationMs: number;
+  distanceMeters: number;
+  // Meters per second; 0 when no time passed
+  averageSpeed: number;
+  maxSpeed: number;
+}
+
+function toTime(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+/**
+ * Split a history sorted oldest first into trips. Fixes recorded during a long
+ * stop belong to no trip, except the first and last, which end the previous
+ * trip and start the next one. Trips with fewer than two fixes are dropped.
+ */
+export function splitTrips(locations: LocationData[], options: TripOptions = {}): Trip[] {
+  const { gapMs = TRIP_GAP_MS, stopMs = TRIP_STOP_MS } = options;
+  const stops = detectStayPoints(locations, { minDurationMs: stopMs });
+  const trips: Trip[] = [];
+  let current: LocationData[] = [];
+
+  const close = () => {
+    if (current.length > 1) {
+      trips.push({ start: current[0].timestamp, end: current[current.length - 1].timestamp, locations: current });
+    }
+    current = [];
+  };
+
+  let nextStop = 0;
+  locations.forEach((location, index) => {
+    const stop = stops[nextStop];
+    if (stop && index >= stop.startIndex) {
+      if (index === stop.startIndex) {
+        current.push(location);
+        close();
+      }
+      if (index === stop.endIndex) {
+        current.push(location);
+        nextStop++;
+      }
+      return;
+    }
+
+    const previous = current[current.length - 1];
+    if (previous && toTime(location.timestamp) - toTime(previous.timestamp) > gapMs) {
+      close();
+    }
+    current.push(location);
+  });
+  close();
+
+  return trips;
+}
+
+// Statistics for one trip's fixes, sorted oldest first
+export function tripStats(locations: LocationData[]): TripStats {
+  const durationMs = locations.length > 1
+    ? toTime(locations[locations.length - 1].timestamp) - toTime(locations[0].timestamp)
+    : 0;
+  const distanceMeters = pathDistance(locations);
+
+  let maxSpeed = 0;
+  for (let i = 1; i < locations.length; i++) {
+    maxSpeed = Math.max(maxSpeed, speedBetween(locations[i - 1], locations[i]) ?? 0);
+  }
+
+  return {
+    durationMs,
+    distanceMeters,
+    averageSpeed: durationMs > 0 ? distanceMeters / (durationMs / 1000) : 0,
+    maxSpeed,
+  };
+}
+
+// The trip starting at the given timestamp, if it is still in the list
+export function findTrip(trips: Trip[], start: string | null): Trip | null {
+  return (start && trips.find((trip) => trip.start === start)) || null;
+}
+
+// Range covering exactly the trip's fixes; `to` is exclusive, so step 1ms past the end
+export function tripRange(trip: Trip): LocationRange {
+  return { from: trip.start, to: new Date(toTime(trip.end) + 1).toISOString() };
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import {
+  UnitSystem,
+  DEFAULT_UNIT_SYSTEM,
+  isUnitSystem,
+  formatDistance as formatDistanceIn,
+  formatSpeed as formatSpeedIn,
+} from './units';
+
+interface UnitsContextType {
+  units: UnitSystem;
+  setUnits: (units: UnitSystem) => void;
+  // Format in the user's preferred units
+  formatDistance: (meters: number) => string;
+  formatSpeed: (metersPerSecond: number) => string;
+}
+
+const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+const UNITS_STORAGE_KEY = 'geotracker_units';
+
+export function UnitsProvider({ children }: { children: ReactNode }) {
+  const [units, setUnits] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(UNITS_STORAGE_KEY);
+      if (isUnitSystem(saved)) {
+        setUnits(saved);
+      }
+    } catch {
+      // localStorage may be unavailable
+    }
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(UNITS_STORAGE_KEY, units);
+    } catch {
+      // localStorage may be unavailable
+    }
+  }, [units]);
+
+  const formatDistance = useCallback((meters: number) => formatDistanceIn(meters, units), [units]);
+  const formatSpeed = useCallback((metersPerSecond: number) => formatSpeedIn(metersPerSecond, units), [units]);
+
+  return (
+    <UnitsContext.Provider value={{ units, setUnits, formatDistance, formatSpeed }}>
+      {children}
+    </UnitsContext.Provider>
+  );
+}
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (!context) {
+    throw new Error('useUnits must be used within a UnitsProvider');
+  }
+  return context;
+}
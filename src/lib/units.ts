@@ -0,0 +1,46 @@
+// Display units for distances and speeds. Values are always stored and
+// computed in meters and meters per second; only formatting changes.
+
+export type UnitSystem = 'metric' | 'imperial' | 'nautical';
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric (km, km/h)' },
+  { value: 'imperial', label: 'Imperial (mi, mph)' },
+  { value: 'nautical', label: 'Nautical (NM, kn)' },
+];
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_NAUTICAL_MILE = 1852;
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.some((u) => u.value === value);
+}
+
+// Short distances in the small unit (m or ft), longer ones in km, mi or NM
+export function formatDistance(meters: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  switch (system) {
+    case 'imperial':
+      if (meters < 0.1 * METERS_PER_MILE) return `${(meters / METERS_PER_FOOT).toFixed(0)}ft`;
+      return `${(meters / METERS_PER_MILE).toFixed(2)}mi`;
+    case 'nautical':
+      if (meters < 0.1 * METERS_PER_NAUTICAL_MILE) return `${meters.toFixed(0)}m`;
+      return `${(meters / METERS_PER_NAUTICAL_MILE).toFixed(2)}NM`;
+    default:
+      if (meters < 1000) return `${meters.toFixed(0)}m`;
+      return `${(meters / 1000).toFixed(2)}km`;
+  }
+}
+
+export function formatSpeed(metersPerSecond: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
+  switch (system) {
+    case 'imperial':
+      return `${((metersPerSecond * 3600) / METERS_PER_MILE).toFixed(1)} mph`;
+    case 'nautical':
+      return `${((metersPerSecond * 3600) / METERS_PER_NAUTICAL_MILE).toFixed(1)} kn`;
+    default:
+      return `${(metersPerSecond * 3.6).toFixed(1)} km/h`;
+  }
+}